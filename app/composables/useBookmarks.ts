@@ -0,0 +1,60 @@
+import type { ComputedRef, Ref } from "vue"
+import { computed } from "vue"
+import type { Bookmark } from "~/types"
+import { getTabLabel } from "~/utils/formatUtils"
+
+export interface UseBookmarksResult {
+  /** Toggles the bookmark of a page (the current page when omitted) */
+  toggleBookmark: (page?: number) => void
+  removeBookmark: (page: number) => void
+  clearBookmarks: () => void
+  bookmarkedPages: ComputedRef<number[]>
+  isCurrentPageBookmarked: ComputedRef<boolean>
+}
+
+/**
+ * Bookmark CRUD over the session's bookmark list
+ *
+ * @param bookmarks - Current bookmarks
+ * @param currentPage - Current page number
+ * @param getChapterForPage - Function to get chapter name for a page
+ */
+export function useBookmarks(
+  bookmarks: Ref<Bookmark[]>,
+  currentPage: Ref<number>,
+  getChapterForPage: (page: number) => string | undefined,
+): UseBookmarksResult {
+  const toggleBookmark = (page: number = currentPage.value) => {
+    if (bookmarks.value.some((b) => b.page === page)) {
+      bookmarks.value = bookmarks.value.filter((b) => b.page !== page)
+      return
+    }
+    const label = getTabLabel(page, getChapterForPage(page))
+    bookmarks.value = [
+      ...bookmarks.value,
+      { page, label, createdAt: Date.now() },
+    ]
+  }
+
+  const removeBookmark = (page: number) => {
+    bookmarks.value = bookmarks.value.filter((b) => b.page !== page)
+  }
+
+  const clearBookmarks = () => {
+    bookmarks.value = []
+  }
+
+  const bookmarkedPages = computed(() => bookmarks.value.map((b) => b.page))
+
+  const isCurrentPageBookmarked = computed(() =>
+    bookmarks.value.some((b) => b.page === currentPage.value),
+  )
+
+  return {
+    toggleBookmark,
+    removeBookmark,
+    clearBookmarks,
+    bookmarkedPages,
+    isCurrentPageBookmarked,
+  }
+}
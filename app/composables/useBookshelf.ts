@@ -0,0 +1,97 @@
+import type { BookshelfItem } from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import { deleteStoredIndex } from "~/utils/searchIndexStore"
+
+const DB_NAME = "pedaru-bookshelf"
+const DB_VERSION = 1
+const ITEM_STORE = "items"
+// 一覧表示でファイル本体を読み込まないよう別ストアに分ける
+const FILE_STORE = "files"
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      db.createObjectStore(ITEM_STORE, { keyPath: "fingerprint" })
+      db.createObjectStore(FILE_STORE)
+    }
+  },
+)
+
+export interface UseBookshelfResult {
+  /** Adds or refreshes a document; the file bytes are stored as a Blob */
+  addItem: (file: Blob, item: BookshelfItem) => Promise<void>
+  listItems: () => Promise<BookshelfItem[]>
+  /** Stored file of a document, or null when it is not on the shelf */
+  getFile: (fingerprint: string) => Promise<File | null>
+  /** Removes the document and its search index */
+  removeItem: (fingerprint: string) => Promise<void>
+}
+
+/**
+ * Documents kept in IndexedDB for reopening and library-wide search
+ */
+export function useBookshelf(): UseBookshelfResult {
+  const addItem = async (file: Blob, item: BookshelfItem) => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction([ITEM_STORE, FILE_STORE], "readwrite")
+    const items = tx.objectStore(ITEM_STORE)
+    const existing = await requestToPromise<BookshelfItem | undefined>(
+      items.get(item.fingerprint),
+    )
+    // 再度開いた場合は最初に追加した日時を保つ
+    items.put({ ...item, addedAt: existing?.addedAt ?? item.addedAt })
+    if (!existing) {
+      tx.objectStore(FILE_STORE).put(file, item.fingerprint)
+    }
+    await transactionDone(tx)
+  }
+
+  const listItems = async (): Promise<BookshelfItem[]> => {
+    if (!isIndexedDbAvailable()) return []
+
+    const db = await connect()
+    const items = await requestToPromise<BookshelfItem[]>(
+      db.transaction(ITEM_STORE, "readonly").objectStore(ITEM_STORE).getAll(),
+    )
+    return items.sort((a, b) => b.addedAt - a.addedAt)
+  }
+
+  const getFile = async (fingerprint: string): Promise<File | null> => {
+    if (!isIndexedDbAvailable()) return null
+
+    const db = await connect()
+    const tx = db.transaction([ITEM_STORE, FILE_STORE], "readonly")
+    const [item, blob] = await Promise.all([
+      requestToPromise<BookshelfItem | undefined>(
+        tx.objectStore(ITEM_STORE).get(fingerprint),
+      ),
+      requestToPromise<Blob | undefined>(
+        tx.objectStore(FILE_STORE).get(fingerprint),
+      ),
+    ])
+    if (!item || !blob) return null
+    return new File([blob], item.name, { type: "application/pdf" })
+  }
+
+  const removeItem = async (fingerprint: string) => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction([ITEM_STORE, FILE_STORE], "readwrite")
+    tx.objectStore(ITEM_STORE).delete(fingerprint)
+    tx.objectStore(FILE_STORE).delete(fingerprint)
+    await transactionDone(tx)
+    await deleteStoredIndex(fingerprint)
+  }
+
+  return { addItem, listItems, getFile, removeItem }
+}
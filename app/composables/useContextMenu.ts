@@ -1,5 +1,7 @@
 import { ref } from "vue"
 import type { Ref } from "vue"
+import type { HighlightColor } from "~/types"
+import { findHighlightIdAt } from "~/utils/highlights"
 
 export interface ContextMenuPosition {
   x: number
@@ -9,14 +11,25 @@ export interface ContextMenuPosition {
 export interface UseContextMenuOptions {
   triggerTranslation: (autoExplain?: boolean) => void
   triggerExplanation: () => void
+  /** Highlights the current selection */
+  addHighlight?: (color: HighlightColor) => void
+  recolorHighlight?: (id: string, color: HighlightColor) => void
+  removeHighlight?: (id: string) => void
+  /** Adds a note to a highlight, or to the current selection when null */
+  addNote?: (highlightId: string | null) => void
 }
 
 export interface UseContextMenuResult {
   contextMenuPosition: Ref<ContextMenuPosition | null>
+  /** Highlight under the pointer when the menu was opened on one */
+  contextMenuHighlightId: Ref<string | null>
   handleContextMenu: (e: MouseEvent) => void
   handleContextMenuCopy: () => void
   handleContextMenuTranslate: () => void
   handleContextMenuExplain: () => void
+  handleContextMenuHighlight: (color: HighlightColor) => void
+  handleContextMenuRemoveHighlight: () => void
+  handleContextMenuAddNote: () => void
   closeContextMenu: () => void
 }
 
@@ -25,26 +38,32 @@ export function useContextMenu(
 ): UseContextMenuResult {
   const { triggerTranslation, triggerExplanation } = options
   const contextMenuPosition = ref<ContextMenuPosition | null>(null)
+  const contextMenuHighlightId = ref<string | null>(null)
 
   const handleContextMenu = (e: MouseEvent) => {
-    const windowSelection = window.getSelection()
-    if (!windowSelection || windowSelection.isCollapsed) {
+    const pdfViewer = document.getElementById("pdf-viewer-container")
+    if (!pdfViewer) {
       return
     }
 
-    const selectedText = windowSelection.toString().trim()
-    if (!selectedText || selectedText.length === 0) {
-      return
-    }
+    const windowSelection = window.getSelection()
+    const selectedText = windowSelection?.isCollapsed
+      ? ""
+      : (windowSelection?.toString().trim() ?? "")
+    const highlightId = findHighlightIdAt(e.clientX, e.clientY)
 
-    const range = windowSelection.getRangeAt(0)
-    const container = range.commonAncestorContainer
-    const pdfViewer = document.getElementById("pdf-viewer-container")
-    if (!pdfViewer || !pdfViewer.contains(container as Node)) {
+    if (selectedText && windowSelection) {
+      const range = windowSelection.getRangeAt(0)
+      const container = range.commonAncestorContainer
+      if (!pdfViewer.contains(container as Node)) {
+        return
+      }
+    } else if (!highlightId) {
       return
     }
 
     e.preventDefault()
+    contextMenuHighlightId.value = selectedText ? null : highlightId
     contextMenuPosition.value = { x: e.clientX, y: e.clientY }
   }
   const handleContextMenuCopy = () => {
@@ -61,14 +80,37 @@ export function useContextMenu(
   const handleContextMenuExplain = () => {
     triggerExplanation()
   }
-  const closeContextMenu = () => {}
+  // ハイライト上で開いた場合は色の変更、選択中のテキストなら新規作成
+  const handleContextMenuHighlight = (color: HighlightColor) => {
+    if (contextMenuHighlightId.value) {
+      options.recolorHighlight?.(contextMenuHighlightId.value, color)
+    } else {
+      options.addHighlight?.(color)
+    }
+  }
+  const handleContextMenuRemoveHighlight = () => {
+    if (contextMenuHighlightId.value) {
+      options.removeHighlight?.(contextMenuHighlightId.value)
+    }
+  }
+  const handleContextMenuAddNote = () => {
+    options.addNote?.(contextMenuHighlightId.value)
+  }
+  const closeContextMenu = () => {
+    contextMenuPosition.value = null
+    contextMenuHighlightId.value = null
+  }
 
   return {
     contextMenuPosition,
+    contextMenuHighlightId,
     closeContextMenu,
     handleContextMenu,
     handleContextMenuCopy,
     handleContextMenuExplain,
+    handleContextMenuHighlight,
+    handleContextMenuRemoveHighlight,
+    handleContextMenuAddNote,
     handleContextMenuTranslate,
   }
 }
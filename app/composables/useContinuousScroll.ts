@@ -0,0 +1,274 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { ComputedRef, Ref } from "vue"
+import {
+  computed,
+  nextTick,
+  onBeforeUnmount,
+  ref,
+  shallowRef,
+  watch,
+} from "vue"
+
+/** Space above the first page and between pages (px) */
+export const CONTINUOUS_PAGE_GAP = 16
+/** Pages whose sizes are published to the layout at once while loading */
+const SIZE_BATCH_SIZE = 25
+
+interface PageSize {
+  width: number
+  height: number
+}
+
+export interface PageLayout {
+  page: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface UseContinuousScrollOptions {
+  /** The scrolling element containing the pages */
+  containerRef: Ref<HTMLElement | null>
+  pdfDocument: Ref<PDFDocumentProxy | null>
+  scale: Ref<number>
+  currentPage: Ref<number>
+  enabled: Ref<boolean>
+  /** Called when scrolling brings another page to the front */
+  onPageChange: (page: number) => void
+}
+
+export interface UseContinuousScrollResult {
+  /** Position and size of every page at the current scale */
+  pageLayouts: ComputedRef<PageLayout[]>
+  /** Pages near the viewport, the only ones actually rendered */
+  renderedPages: ComputedRef<Set<number>>
+  handleScroll: () => void
+  /**
+   * Keeps the point at `viewportY` (px from the top of the container)
+   * still through the next layout change, e.g. a zoom around the cursor
+   */
+  anchorAt: (viewportY: number) => void
+}
+
+/**
+ * Virtualized vertical layout of all pages
+ *
+ * Every page gets a placeholder sized from its viewport, but only the
+ * pages within a screen of the viewport are rendered. The page covering
+ * most of the viewport is reported as the current page, and changes of
+ * the current page from elsewhere scroll to that page
+ */
+export function useContinuousScroll(
+  options: UseContinuousScrollOptions,
+): UseContinuousScrollResult {
+  const { containerRef, pdfDocument, scale, currentPage, enabled } = options
+
+  // 倍率 1 のときのページの大きさ (読み込み前は 1 ページ目の大きさで代用)
+  const pageSizes = shallowRef<PageSize[]>([])
+  const scrollTop = ref(0)
+  const viewportHeight = ref(0)
+  // 最後にスクロール位置と一致させたページ (自分で変えたページで再スクロールしない)
+  let syncedPage = 0
+  // 倍率やページの大きさが変わっても同じ場所を表示し続けるための基準
+  let anchor: { page: number; offset: number; viewportY: number } | null = null
+  let frameId: number | null = null
+  let sizeToken = 0
+
+  const pageLayouts = computed(() => {
+    const layouts: PageLayout[] = []
+    let top = CONTINUOUS_PAGE_GAP
+    pageSizes.value.forEach((size, i) => {
+      const width = Math.floor(size.width * scale.value)
+      const height = Math.floor(size.height * scale.value)
+      layouts.push({ page: i + 1, top, width, height })
+      top += height + CONTINUOUS_PAGE_GAP
+    })
+    return layouts
+  })
+
+  /** Index of the first page whose bottom edge is below `y` */
+  const findPageIndexAt = (y: number) => {
+    const layouts = pageLayouts.value
+    let low = 0
+    let high = layouts.length - 1
+    while (low < high) {
+      const mid = (low + high) >> 1
+      const layout = layouts[mid]
+      if (layout && layout.top + layout.height < y) low = mid + 1
+      else high = mid
+    }
+    return low
+  }
+
+  const renderedPages = computed(() => {
+    const pages = new Set<number>()
+    const layouts = pageLayouts.value
+    if (!enabled.value || layouts.length === 0) return pages
+    // 前後 1 画面分まで描画しておき、スクロールしたときに白く見えないようにする
+    const overscan = viewportHeight.value
+    const bottom = scrollTop.value + viewportHeight.value + overscan
+    for (
+      let i = findPageIndexAt(scrollTop.value - overscan);
+      i < layouts.length;
+      i++
+    ) {
+      const layout = layouts[i]
+      if (!layout || layout.top > bottom) break
+      pages.add(layout.page)
+    }
+    return pages
+  })
+
+  const getMostVisiblePage = () => {
+    const layouts = pageLayouts.value
+    const viewTop = scrollTop.value
+    const viewBottom = viewTop + viewportHeight.value
+    let best: number | null = null
+    let bestVisible = 0
+    for (let i = findPageIndexAt(viewTop); i < layouts.length; i++) {
+      const layout = layouts[i]
+      if (!layout || layout.top > viewBottom) break
+      const visible =
+        Math.min(layout.top + layout.height, viewBottom) -
+        Math.max(layout.top, viewTop)
+      if (visible > bestVisible) {
+        best = layout.page
+        bestVisible = visible
+      }
+    }
+    return best
+  }
+
+  const updateAnchor = (viewportY = 0) => {
+    const y = scrollTop.value + viewportY
+    const layout = pageLayouts.value[findPageIndexAt(y)]
+    anchor = layout
+      ? {
+          page: layout.page,
+          offset: (y - layout.top) / Math.max(layout.height, 1),
+          viewportY,
+        }
+      : null
+  }
+
+  const readScrollPosition = () => {
+    const container = containerRef.value
+    if (!container) return
+    scrollTop.value = container.scrollTop
+    viewportHeight.value = container.clientHeight
+  }
+
+  const scrollToPage = (page: number, offset = 0, viewportY = 0) => {
+    const container = containerRef.value
+    const layout = pageLayouts.value[page - 1]
+    if (!container || !layout) return
+    const gap = offset === 0 ? CONTINUOUS_PAGE_GAP : 0
+    container.scrollTop = layout.top - gap + offset * layout.height - viewportY
+    syncedPage = page
+    readScrollPosition()
+    updateAnchor()
+  }
+
+  const handleScroll = () => {
+    if (!enabled.value || frameId !== null) return
+    frameId = requestAnimationFrame(() => {
+      frameId = null
+      readScrollPosition()
+      updateAnchor()
+      const page = getMostVisiblePage()
+      if (page !== null && page !== syncedPage) {
+        syncedPage = page
+        options.onPageChange(page)
+      }
+    })
+  }
+
+  const loadPageSizes = async (doc: PDFDocumentProxy) => {
+    const token = ++sizeToken
+    const first = (await doc.getPage(1)).getViewport({ scale: 1 })
+    if (token !== sizeToken) return
+    const sizes: PageSize[] = Array.from({ length: doc.numPages }, () => ({
+      width: first.width,
+      height: first.height,
+    }))
+    pageSizes.value = sizes.slice()
+
+    for (let page = 2; page <= doc.numPages; page++) {
+      const viewport = (await doc.getPage(page)).getViewport({ scale: 1 })
+      if (token !== sizeToken) return
+      sizes[page - 1] = { width: viewport.width, height: viewport.height }
+      if (page % SIZE_BATCH_SIZE === 0 || page === doc.numPages) {
+        pageSizes.value = sizes.slice()
+      }
+    }
+  }
+
+  watch(
+    [pdfDocument, enabled],
+    ([doc, isEnabled], [previousDoc]) => {
+      if (doc !== previousDoc) {
+        sizeToken++
+        pageSizes.value = []
+        syncedPage = 0
+        anchor = null
+      }
+      if (!doc || !isEnabled || pageSizes.value.length > 0) return
+      loadPageSizes(doc).catch((error) => {
+        console.warn("Failed to load page sizes:", error)
+      })
+    },
+    { immediate: true },
+  )
+
+  // 配置が変わったら基準の位置へ戻す (初めて配置したときは現在のページへ)
+  watch(
+    pageLayouts,
+    async () => {
+      if (!enabled.value) return
+      await nextTick()
+      if (anchor) scrollToPage(anchor.page, anchor.offset, anchor.viewportY)
+      else scrollToPage(currentPage.value)
+    },
+    { flush: "post" },
+  )
+
+  watch(enabled, async (isEnabled) => {
+    anchor = null
+    syncedPage = 0
+    if (!isEnabled) return
+    await nextTick()
+    readScrollPosition()
+    scrollToPage(currentPage.value)
+  })
+
+  // ページ送りや検索などで現在のページが変わったらそのページまでスクロールする
+  watch(currentPage, (page) => {
+    if (enabled.value && page !== syncedPage) scrollToPage(page)
+  })
+
+  let resizeObserver: ResizeObserver | null = null
+  watch(
+    containerRef,
+    (container) => {
+      resizeObserver?.disconnect()
+      resizeObserver = null
+      if (!container) return
+      resizeObserver = new ResizeObserver(() => readScrollPosition())
+      resizeObserver.observe(container)
+    },
+    { immediate: true },
+  )
+
+  onBeforeUnmount(() => {
+    sizeToken++
+    if (frameId !== null) cancelAnimationFrame(frameId)
+    resizeObserver?.disconnect()
+  })
+
+  const anchorAt = (viewportY: number) => {
+    readScrollPosition()
+    updateAnchor(viewportY)
+  }
+
+  return { pageLayouts, renderedPages, handleScroll, anchorAt }
+}
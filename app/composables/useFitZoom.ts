@@ -0,0 +1,110 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { Ref } from "vue"
+import { onBeforeUnmount, ref, shallowRef, watch } from "vue"
+import type { ZoomMode } from "~/types"
+import { computeFitZoom } from "~/utils/zoomConfig"
+
+interface Size {
+  width: number
+  height: number
+}
+
+export interface UseFitZoomOptions {
+  /** The scrolling element containing the pages */
+  containerRef: Ref<HTMLElement | null>
+  pdfDocument: Ref<PDFDocumentProxy | null>
+  /** Pages shown side by side, which must fit together */
+  pages: Ref<number[]>
+  zoom: Ref<number>
+  zoomMode: Ref<ZoomMode>
+  /** Space around and between the pages that is not available to them */
+  spacing: Ref<{ horizontal: number; vertical: number; between: number }>
+  onZoomChange: (zoom: number) => void
+}
+
+/**
+ * Keeps the zoom fitted to the viewer while a fitting zoom mode is active
+ *
+ * The zoom is recomputed when the viewer is resized, when other pages
+ * come into view and when the layout of the pages changes
+ */
+export function useFitZoom(options: UseFitZoomOptions): void {
+  const { containerRef, pdfDocument, pages, zoom, zoomMode, spacing } = options
+
+  const containerSize = ref<Size>({ width: 0, height: 0 })
+  // 倍率 1 のときの並べたページ全体の大きさ
+  const contentSize = shallowRef<Size | null>(null)
+
+  watch(
+    [pdfDocument, pages],
+    async ([doc, pageNumbers], _, onCleanup) => {
+      let cancelled = false
+      onCleanup(() => {
+        cancelled = true
+      })
+      if (!doc || pageNumbers.length === 0) {
+        contentSize.value = null
+        return
+      }
+      try {
+        const viewports = await Promise.all(
+          pageNumbers.map(async (pageNumber) =>
+            (await doc.getPage(pageNumber)).getViewport({ scale: 1 }),
+          ),
+        )
+        if (cancelled) return
+        contentSize.value = {
+          width: viewports.reduce((sum, vp) => sum + vp.width, 0),
+          height: Math.max(...viewports.map((vp) => vp.height)),
+        }
+      } catch (error) {
+        if (!cancelled) console.warn("Failed to measure pages:", error)
+      }
+    },
+    { immediate: true },
+  )
+
+  watch(
+    [zoomMode, containerSize, contentSize, spacing],
+    ([mode, container, content, space]) => {
+      if (!content || container.width === 0 || container.height === 0) return
+      const fitted = computeFitZoom(mode, {
+        availableWidth:
+          container.width -
+          space.horizontal -
+          space.between * (pages.value.length - 1),
+        availableHeight: container.height - space.vertical,
+        contentWidth: content.width,
+        contentHeight: content.height,
+      })
+      if (fitted === null) return
+      // 端数で横スクロールが出ないよう切り捨てる
+      const rounded = Math.floor(fitted * 1000) / 1000
+      if (Math.abs(rounded - zoom.value) > 0.001) options.onZoomChange(rounded)
+    },
+  )
+
+  let resizeObserver: ResizeObserver | null = null
+  watch(
+    containerRef,
+    (container) => {
+      resizeObserver?.disconnect()
+      resizeObserver = null
+      if (!container) return
+      const measure = () => {
+        containerSize.value = {
+          width: container.clientWidth,
+          height: container.clientHeight,
+        }
+      }
+      resizeObserver = new ResizeObserver(measure)
+      resizeObserver.observe(container)
+      measure()
+    },
+    { immediate: true },
+  )
+
+  onBeforeUnmount(() => {
+    resizeObserver?.disconnect()
+  })
+}
@@ -0,0 +1,59 @@
+import type { Ref } from "vue"
+import type { Highlight, HighlightColor } from "~/types"
+import { getTextLayerSelection } from "~/utils/highlights"
+
+export interface UseHighlightsResult {
+  /** Highlights the current text selection; returns null when nothing is selected */
+  addHighlightFromSelection: (color: HighlightColor) => Highlight | null
+  recolorHighlight: (id: string, color: HighlightColor) => void
+  removeHighlight: (id: string) => void
+  clearHighlights: () => void
+  getHighlightsForPage: (page: number) => Highlight[]
+}
+
+/**
+ * Highlight CRUD over the session's highlight list
+ */
+export function useHighlights(
+  highlights: Ref<Highlight[]>,
+): UseHighlightsResult {
+  const addHighlightFromSelection = (color: HighlightColor) => {
+    const selection = getTextLayerSelection()
+    if (!selection) return null
+
+    const highlight: Highlight = {
+      id: crypto.randomUUID(),
+      ...selection,
+      color,
+      createdAt: Date.now(),
+    }
+    highlights.value = [...highlights.value, highlight]
+    window.getSelection()?.removeAllRanges()
+    return highlight
+  }
+
+  const recolorHighlight = (id: string, color: HighlightColor) => {
+    highlights.value = highlights.value.map((h) =>
+      h.id === id ? { ...h, color } : h,
+    )
+  }
+
+  const removeHighlight = (id: string) => {
+    highlights.value = highlights.value.filter((h) => h.id !== id)
+  }
+
+  const clearHighlights = () => {
+    highlights.value = []
+  }
+
+  const getHighlightsForPage = (page: number) =>
+    highlights.value.filter((h) => h.page === page)
+
+  return {
+    addHighlightFromSelection,
+    recolorHighlight,
+    removeHighlight,
+    clearHighlights,
+    getHighlightsForPage,
+  }
+}
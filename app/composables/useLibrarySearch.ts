@@ -0,0 +1,246 @@
+import type { Ref } from "vue"
+import { onBeforeUnmount, onMounted, ref } from "vue"
+import { useBookshelf } from "~/composables/useBookshelf"
+import type { BookshelfItem, SearchOptions } from "~/types"
+import { extractPageTexts } from "~/utils/pageTextExtraction"
+import { loadPdfDocument } from "~/utils/pdfjs"
+import type {
+  LibrarySearchGroup,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from "~/utils/searchIndex"
+import {
+  createSearchMatcher,
+  DEFAULT_SEARCH_OPTIONS,
+} from "~/utils/searchMatcher"
+import { createSearchWorker } from "~/utils/searchWorker"
+
+const SEARCH_DEBOUNCE_MS = 300
+/** Results listed per document; the group still shows the total count */
+const RESULTS_PER_DOCUMENT = 20
+
+export interface LibraryIndexingState {
+  item: BookshelfItem
+  indexedPages: number
+}
+
+export interface UseLibrarySearchResult {
+  items: Ref<BookshelfItem[]>
+  searchQuery: Ref<string>
+  searchOptions: Ref<SearchOptions>
+  searchError: Ref<string | null>
+  groups: Ref<LibrarySearchGroup[]>
+  isSearching: Ref<boolean>
+  /** Document currently being indexed in the background */
+  indexing: Ref<LibraryIndexingState | null>
+  handleSearchChange: (query: string) => void
+  setSearchOptions: (options: Partial<SearchOptions>) => void
+  removeItem: (fingerprint: string) => Promise<void>
+}
+
+/**
+ * Search across every document on the bookshelf
+ *
+ * Documents without a complete index are indexed one at a time in the
+ * background (same worker and storage as the viewer's search), and
+ * queries scan the stored indexes document by document in the worker
+ */
+export function useLibrarySearch(): UseLibrarySearchResult {
+  const { listItems, getFile, removeItem: removeBookshelfItem } = useBookshelf()
+
+  const items = ref<BookshelfItem[]>([])
+  const searchQuery = ref("")
+  const searchOptions = ref<SearchOptions>({ ...DEFAULT_SEARCH_OPTIONS })
+  const searchError = ref<string | null>(null)
+  const groups = ref<LibrarySearchGroup[]>([])
+  const isSearching = ref(false)
+  const indexing = ref<LibraryIndexingState | null>(null)
+
+  let worker: Worker | null = null
+  let searchRequestId = 0
+  let debounceId: ReturnType<typeof setTimeout> | null = null
+  let isDisposed = false
+  // 索引作成中の文書について worker の "opened" (失敗時は "error") を待つ
+  let pendingOpen: {
+    fingerprint: string
+    resolve: (missingPages: number[]) => void
+    reject: (error: Error) => void
+  } | null = null
+
+  const post = (message: SearchWorkerRequest) => {
+    worker?.postMessage(message)
+  }
+
+  const performSearch = () => {
+    const query = searchQuery.value
+    searchError.value = null
+    if (!query.trim() || !worker) {
+      searchRequestId++
+      groups.value = []
+      isSearching.value = false
+      return
+    }
+    try {
+      createSearchMatcher(query, searchOptions.value)
+    } catch (error) {
+      searchRequestId++
+      searchError.value = error instanceof Error ? error.message : String(error)
+      groups.value = []
+      isSearching.value = false
+      return
+    }
+    isSearching.value = true
+    post({
+      type: "searchLibrary",
+      id: ++searchRequestId,
+      query,
+      options: { ...searchOptions.value },
+      limitPerDocument: RESULTS_PER_DOCUMENT,
+    })
+  }
+
+  const handleWorkerMessage = (event: MessageEvent<SearchWorkerResponse>) => {
+    const message = event.data
+    switch (message.type) {
+      case "opened":
+        if (pendingOpen?.fingerprint === message.fingerprint) {
+          pendingOpen.resolve(message.missingPages)
+          pendingOpen = null
+        }
+        break
+      case "indexed":
+        if (indexing.value?.item.fingerprint === message.fingerprint) {
+          indexing.value = {
+            ...indexing.value,
+            indexedPages: message.indexedPages,
+          }
+        }
+        break
+      case "libraryResults":
+        if (message.id !== searchRequestId) return
+        groups.value = message.groups
+        isSearching.value = false
+        break
+      case "error":
+        console.error(
+          message.fingerprint
+            ? `Search worker error (${message.fingerprint}):`
+            : "Search worker error:",
+          message.message,
+        )
+        isSearching.value = false
+        // 開けなかった文書は飛ばして残りの文書の索引作成を続ける
+        if (pendingOpen && pendingOpen.fingerprint === message.fingerprint) {
+          pendingOpen.reject(new Error(message.message))
+          pendingOpen = null
+        }
+        break
+    }
+  }
+
+  const openInWorker = (item: BookshelfItem) =>
+    new Promise<number[]>((resolve, reject) => {
+      pendingOpen = { fingerprint: item.fingerprint, resolve, reject }
+      post({
+        type: "open",
+        fingerprint: item.fingerprint,
+        pageCount: item.pageCount,
+      })
+    })
+
+  const indexItem = async (item: BookshelfItem) => {
+    const missingPages = await openInWorker(item)
+    if (missingPages.length === 0 || isDisposed) return
+
+    const file = await getFile(item.fingerprint)
+    if (!file) return
+    indexing.value = {
+      item,
+      indexedPages: item.pageCount - missingPages.length,
+    }
+    const doc = await loadPdfDocument(new Uint8Array(await file.arrayBuffer()))
+    try {
+      const finished = await extractPageTexts(doc, missingPages, {
+        isCancelled: () => isDisposed,
+        onBatch: (pages) =>
+          post({ type: "addPages", fingerprint: item.fingerprint, pages }),
+      })
+      // 新しく索引した文書も結果に含める
+      if (finished && searchQuery.value) performSearch()
+    } finally {
+      await doc.loadingTask.destroy()
+    }
+  }
+
+  const indexMissingItems = async () => {
+    for (const item of items.value) {
+      if (isDisposed) return
+      try {
+        await indexItem(item)
+      } catch (error) {
+        console.error(`Failed to index "${item.name}":`, error)
+      }
+    }
+    indexing.value = null
+    post({ type: "close" })
+  }
+
+  const refreshItems = async () => {
+    items.value = await listItems().catch((error) => {
+      console.error("Failed to list bookshelf items:", error)
+      return []
+    })
+  }
+
+  const handleSearchChange = (query: string) => {
+    searchQuery.value = query
+    if (debounceId) clearTimeout(debounceId)
+    debounceId = setTimeout(performSearch, SEARCH_DEBOUNCE_MS)
+  }
+
+  const setSearchOptions = (options: Partial<SearchOptions>) => {
+    searchOptions.value = { ...searchOptions.value, ...options }
+    performSearch()
+  }
+
+  const removeItem = async (fingerprint: string) => {
+    await removeBookshelfItem(fingerprint)
+    items.value = items.value.filter((i) => i.fingerprint !== fingerprint)
+    groups.value = groups.value.filter((g) => g.fingerprint !== fingerprint)
+  }
+
+  onMounted(async () => {
+    worker = createSearchWorker()
+    worker.addEventListener("message", handleWorkerMessage)
+    await refreshItems()
+    void indexMissingItems()
+  })
+
+  onBeforeUnmount(() => {
+    isDisposed = true
+    if (debounceId) clearTimeout(debounceId)
+    if (worker) {
+      // 途中までの索引を保存し終えてから終了する
+      const closing = worker
+      worker = null
+      closing.removeEventListener("message", handleWorkerMessage)
+      closing.addEventListener("message", (event) => {
+        if (event.data?.type === "closed") closing.terminate()
+      })
+      closing.postMessage({ type: "close" } satisfies SearchWorkerRequest)
+    }
+  })
+
+  return {
+    items,
+    searchQuery,
+    searchOptions,
+    searchError,
+    groups,
+    isSearching,
+    indexing,
+    handleSearchChange,
+    setSearchOptions,
+    removeItem,
+  }
+}
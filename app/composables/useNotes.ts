@@ -0,0 +1,97 @@
+import type { Ref } from "vue"
+import type { Highlight, Note, NoteAnchor } from "~/types"
+
+export interface UseNotesResult {
+  addNote: (page: number, anchor: NoteAnchor, body?: string) => Note
+  updateNote: (id: string, body: string) => void
+  removeNote: (id: string) => void
+  /** Removes the notes attached to a highlight, e.g. when it is deleted */
+  removeNotesForHighlight: (highlightId: string) => void
+  getNotesForPage: (page: number) => Note[]
+  searchNotes: (query: string) => Note[]
+}
+
+/**
+ * Text a note is anchored to, used for listing and searching
+ */
+export function getNoteAnchorText(
+  note: Note,
+  highlights: Highlight[],
+): string | null {
+  if (note.anchor.type !== "highlight") return null
+  const { highlightId } = note.anchor
+  return highlights.find((h) => h.id === highlightId)?.text ?? null
+}
+
+/**
+ * Notes whose body or anchored text contains every word of the query
+ */
+export function filterNotes(
+  notes: Note[],
+  highlights: Highlight[],
+  query: string,
+): Note[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return notes
+
+  return notes.filter((note) => {
+    const haystack = [note.body, getNoteAnchorText(note, highlights)]
+      .join("\n")
+      .toLowerCase()
+    return words.every((word) => haystack.includes(word))
+  })
+}
+
+/**
+ * Margin note CRUD over the session's note list
+ */
+export function useNotes(
+  notes: Ref<Note[]>,
+  highlights: Ref<Highlight[]>,
+): UseNotesResult {
+  const addNote = (page: number, anchor: NoteAnchor, body = "") => {
+    const now = Date.now()
+    const note: Note = {
+      id: crypto.randomUUID(),
+      page,
+      anchor,
+      body,
+      createdAt: now,
+      updatedAt: now,
+    }
+    notes.value = [...notes.value, note]
+    return note
+  }
+
+  const updateNote = (id: string, body: string) => {
+    notes.value = notes.value.map((n) =>
+      n.id === id ? { ...n, body, updatedAt: Date.now() } : n,
+    )
+  }
+
+  const removeNote = (id: string) => {
+    notes.value = notes.value.filter((n) => n.id !== id)
+  }
+
+  const removeNotesForHighlight = (highlightId: string) => {
+    notes.value = notes.value.filter(
+      (n) =>
+        n.anchor.type !== "highlight" || n.anchor.highlightId !== highlightId,
+    )
+  }
+
+  const getNotesForPage = (page: number) =>
+    notes.value.filter((n) => n.page === page)
+
+  const searchNotes = (query: string) =>
+    filterNotes(notes.value, highlights.value, query)
+
+  return {
+    addNote,
+    updateNote,
+    removeNote,
+    removeNotesForHighlight,
+    getNotesForPage,
+    searchNotes,
+  }
+}
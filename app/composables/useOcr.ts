@@ -0,0 +1,192 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { Ref, ShallowRef } from "vue"
+import { onBeforeUnmount, ref, watch } from "vue"
+import type { TextItem } from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import { type OcrProgress, recognizePageText, terminateOcr } from "~/utils/ocr"
+import { getNativeTextItems, setOcrTextItems } from "~/utils/pdfjs"
+
+const DB_NAME = "pedaru-ocr"
+const DB_VERSION = 1
+const PAGE_STORE = "pages"
+
+interface OcrPageRecord {
+  fingerprint: string
+  page: number
+  items: TextItem[]
+  recognizedAt: number
+}
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const store = db.createObjectStore(PAGE_STORE, {
+        keyPath: ["fingerprint", "page"],
+      })
+      store.createIndex("fingerprint", "fingerprint")
+    }
+  },
+)
+
+async function loadOcrPages(fingerprint: string): Promise<OcrPageRecord[]> {
+  if (!isIndexedDbAvailable()) return []
+  const db = await connect()
+  return requestToPromise<OcrPageRecord[]>(
+    db
+      .transaction(PAGE_STORE, "readonly")
+      .objectStore(PAGE_STORE)
+      .index("fingerprint")
+      .getAll(fingerprint),
+  )
+}
+
+async function saveOcrPage(record: OcrPageRecord) {
+  if (!isIndexedDbAvailable()) return
+  const db = await connect()
+  const tx = db.transaction(PAGE_STORE, "readwrite")
+  tx.objectStore(PAGE_STORE).put(record)
+  await transactionDone(tx)
+}
+
+export interface UseOcrOptions {
+  pdfDocument: ShallowRef<PDFDocumentProxy | null>
+  fingerprint: Ref<string | null>
+  currentPage: Ref<number>
+  /** Called with the recognized lines, e.g. to add them to the search index */
+  onPageRecognized: (page: number, lines: string[]) => void
+}
+
+export interface UseOcrResult {
+  /** Incremented whenever OCR text becomes available for some page */
+  ocrRevision: Ref<number>
+  /** True when the current page has no embedded text and no OCR text yet */
+  canRecognizeCurrentPage: Ref<boolean>
+  recognizingPage: Ref<number | null>
+  ocrProgress: Ref<OcrProgress | null>
+  ocrError: Ref<string | null>
+  recognizeCurrentPage: () => Promise<void>
+}
+
+/**
+ * On-demand OCR of scanned pages, cached per page in IndexedDB
+ *
+ * Recognized text is registered with `setOcrTextItems`, so every reader
+ * of `getPageTextItems` (text layer, selection, search) picks it up
+ */
+export function useOcr(options: UseOcrOptions): UseOcrResult {
+  const { pdfDocument, fingerprint, currentPage, onPageRecognized } = options
+
+  const ocrRevision = ref(0)
+  const recognizedPages = ref(new Set<number>())
+  const canRecognizeCurrentPage = ref(false)
+  const recognizingPage = ref<number | null>(null)
+  const ocrProgress = ref<OcrProgress | null>(null)
+  const ocrError = ref<string | null>(null)
+
+  watch(
+    [pdfDocument, fingerprint],
+    async ([doc, documentFingerprint], _, onCleanup) => {
+      let cancelled = false
+      onCleanup(() => {
+        cancelled = true
+      })
+      recognizedPages.value = new Set()
+      ocrError.value = null
+      if (!doc || !documentFingerprint) return
+
+      try {
+        const records = await loadOcrPages(documentFingerprint)
+        for (const record of records) {
+          const page = await doc.getPage(record.page)
+          if (cancelled) return
+          setOcrTextItems(page, record.items)
+        }
+        recognizedPages.value = new Set(records.map((r) => r.page))
+        if (records.length > 0) ocrRevision.value++
+      } catch (error) {
+        if (!cancelled) console.error("Failed to load OCR cache:", error)
+      }
+    },
+    { immediate: true },
+  )
+
+  watch(
+    [pdfDocument, currentPage, recognizedPages],
+    async ([doc, pageNumber, recognized], _, onCleanup) => {
+      let cancelled = false
+      onCleanup(() => {
+        cancelled = true
+      })
+      canRecognizeCurrentPage.value = false
+      if (!doc || recognized.has(pageNumber)) return
+
+      try {
+        const page = await doc.getPage(pageNumber)
+        const items = await getNativeTextItems(page)
+        if (!cancelled) canRecognizeCurrentPage.value = items.length === 0
+      } catch {
+        // ページを読めない場合は OCR も行えない
+      }
+    },
+    { immediate: true },
+  )
+
+  const recognizeCurrentPage = async () => {
+    const doc = pdfDocument.value
+    const documentFingerprint = fingerprint.value
+    const pageNumber = currentPage.value
+    if (!doc || !documentFingerprint || recognizingPage.value !== null) return
+
+    recognizingPage.value = pageNumber
+    ocrProgress.value = null
+    ocrError.value = null
+    try {
+      const page = await doc.getPage(pageNumber)
+      const items = await recognizePageText(page, (progress) => {
+        ocrProgress.value = progress
+      })
+      // 認識中に別の文書へ切り替えた場合は結果を捨てる
+      if (fingerprint.value !== documentFingerprint) return
+
+      setOcrTextItems(page, items)
+      recognizedPages.value = new Set(recognizedPages.value).add(pageNumber)
+      ocrRevision.value++
+      onPageRecognized(
+        pageNumber,
+        items.map((item) => item.str),
+      )
+      await saveOcrPage({
+        fingerprint: documentFingerprint,
+        page: pageNumber,
+        items,
+        recognizedAt: Date.now(),
+      })
+    } catch (error) {
+      console.error("OCR failed:", error)
+      ocrError.value = error instanceof Error ? error.message : String(error)
+    } finally {
+      recognizingPage.value = null
+      ocrProgress.value = null
+    }
+  }
+
+  onBeforeUnmount(() => {
+    void terminateOcr()
+  })
+
+  return {
+    ocrRevision,
+    canRecognizeCurrentPage,
+    recognizingPage,
+    ocrProgress,
+    ocrError,
+    recognizeCurrentPage,
+  }
+}
@@ -0,0 +1,141 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { Ref, ShallowRef } from "vue"
+import { ref, shallowRef } from "vue"
+import type { PdfInfo, TocEntry } from "~/types"
+import { computeDocumentFingerprint } from "~/utils/documentFingerprint"
+import { loadPdfDocument } from "~/utils/pdfjs"
+
+type OutlineItem = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number]
+
+export interface LoadedPdf {
+  fingerprint: string
+  name: string
+}
+
+export interface UsePdfDocumentResult {
+  pdfDocument: ShallowRef<PDFDocumentProxy | null>
+  /** Raw bytes of the open document */
+  fileData: ShallowRef<Uint8Array | null>
+  fingerprint: Ref<string | null>
+  fileName: Ref<string | null>
+  pdfInfo: Ref<PdfInfo | null>
+  totalPages: Ref<number>
+  isLoading: Ref<boolean>
+  loadError: Ref<string | null>
+  loadFile: (file: File) => Promise<LoadedPdf | null>
+  closeDocument: () => Promise<void>
+}
+
+/**
+ * Resolves an outline destination to a 1-based page number
+ */
+async function resolveDestinationPage(
+  doc: PDFDocumentProxy,
+  dest: OutlineItem["dest"],
+): Promise<number | null> {
+  try {
+    const explicitDest =
+      typeof dest === "string" ? await doc.getDestination(dest) : dest
+    const ref = explicitDest?.[0]
+    if (ref === undefined || ref === null) return null
+    if (typeof ref === "number") return ref + 1
+    return (await doc.getPageIndex(ref)) + 1
+  } catch {
+    return null
+  }
+}
+
+async function buildToc(
+  doc: PDFDocumentProxy,
+  items: OutlineItem[],
+): Promise<TocEntry[]> {
+  return Promise.all(
+    items.map(async (item) => ({
+      title: item.title,
+      page: await resolveDestinationPage(doc, item.dest),
+      children: await buildToc(doc, item.items ?? []),
+    })),
+  )
+}
+
+async function readPdfInfo(doc: PDFDocumentProxy): Promise<PdfInfo> {
+  const [metadata, outline] = await Promise.all([
+    doc.getMetadata().catch(() => null),
+    doc.getOutline().catch(() => null),
+  ])
+  const info = (metadata?.info ?? {}) as Record<string, unknown>
+  const readString = (key: string) =>
+    typeof info[key] === "string" && info[key] ? (info[key] as string) : null
+
+  return {
+    title: readString("Title"),
+    author: readString("Author"),
+    subject: readString("Subject"),
+    toc: outline ? await buildToc(doc, outline) : [],
+  }
+}
+
+/**
+ * Holds the currently open pdf.js document and its metadata
+ */
+export function usePdfDocument(): UsePdfDocumentResult {
+  const pdfDocument = shallowRef<PDFDocumentProxy | null>(null)
+  const fileData = shallowRef<Uint8Array | null>(null)
+  const fingerprint = ref<string | null>(null)
+  const fileName = ref<string | null>(null)
+  const pdfInfo = ref<PdfInfo | null>(null)
+  const totalPages = ref(0)
+  const isLoading = ref(false)
+  const loadError = ref<string | null>(null)
+
+  const closeDocument = async () => {
+    const doc = pdfDocument.value
+    pdfDocument.value = null
+    fileData.value = null
+    fingerprint.value = null
+    fileName.value = null
+    pdfInfo.value = null
+    totalPages.value = 0
+    await doc?.loadingTask.destroy()
+  }
+
+  const loadFile = async (file: File): Promise<LoadedPdf | null> => {
+    isLoading.value = true
+    loadError.value = null
+    try {
+      const data = new Uint8Array(await file.arrayBuffer())
+      const [doc, hash] = await Promise.all([
+        loadPdfDocument(data),
+        computeDocumentFingerprint(data),
+      ])
+      await closeDocument()
+
+      pdfDocument.value = doc
+      fileData.value = data
+      fingerprint.value = hash
+      fileName.value = file.name
+      totalPages.value = doc.numPages
+      pdfInfo.value = await readPdfInfo(doc)
+      return { fingerprint: hash, name: file.name }
+    } catch (error) {
+      console.error("Failed to load PDF:", error)
+      loadError.value = error instanceof Error ? error.message : String(error)
+      return null
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  return {
+    pdfDocument,
+    fileData,
+    fingerprint,
+    fileName,
+    pdfInfo,
+    totalPages,
+    isLoading,
+    loadError,
+    loadFile,
+    closeDocument,
+  }
+}
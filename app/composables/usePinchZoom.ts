@@ -0,0 +1,152 @@
+import type { ComputedRef, Ref } from "vue"
+import { computed, onBeforeUnmount, ref, watch } from "vue"
+import { clampZoom, ZOOM_CONFIG } from "~/utils/zoomConfig"
+
+/** How strongly a wheel delta (px) changes the zoom */
+const WHEEL_ZOOM_SENSITIVITY = 0.01
+/** Largest delta per event, so one mouse wheel notch is about one step */
+const MAX_WHEEL_DELTA = 25
+/** The gesture ends when no wheel event arrives for this long (ms) */
+const GESTURE_END_DELAY = 150
+
+/** Point kept still by the zoom, in viewport coordinates */
+export interface ZoomAnchor {
+  clientX: number
+  clientY: number
+}
+
+// Safari はピンチを wheel ではなく独自の gesture イベントで通知する
+interface SafariGestureEvent extends UIEvent {
+  scale: number
+  clientX: number
+  clientY: number
+}
+
+export interface UsePinchZoomOptions {
+  /** The scrolling element receiving the gestures */
+  containerRef: Ref<HTMLElement | null>
+  /** The element scaled by the preview transform */
+  contentRef: Ref<HTMLElement | null>
+  zoom: Ref<number>
+  /** Called once per gesture with the final zoom */
+  onZoom: (zoom: number, anchor: ZoomAnchor) => void
+}
+
+export interface UsePinchZoomResult {
+  /** Transform previewing the gesture until the pages are re-rendered */
+  gestureStyle: ComputedRef<Record<string, string> | undefined>
+  handleWheel: (e: WheelEvent) => void
+}
+
+/**
+ * Pinch and ctrl+wheel zoom around the cursor
+ *
+ * During the gesture the rendered pages are only scaled with a CSS
+ * transform; the zoom itself changes once, when the gesture ends
+ */
+export function usePinchZoom(options: UsePinchZoomOptions): UsePinchZoomResult {
+  const { containerRef, contentRef, zoom } = options
+
+  const gestureScale = ref(1)
+  const origin = ref<{ x: number; y: number } | null>(null)
+  let anchor: ZoomAnchor | null = null
+  let endTimer: ReturnType<typeof setTimeout> | null = null
+
+  const gestureStyle = computed(() => {
+    if (!origin.value) return undefined
+    return {
+      transform: `scale(${gestureScale.value})`,
+      transformOrigin: `${origin.value.x}px ${origin.value.y}px`,
+    }
+  })
+
+  const setGestureScale = (scale: number) => {
+    // 倍率の上限・下限を超えてプレビューしない
+    gestureScale.value = Math.min(
+      Math.max(scale, ZOOM_CONFIG.min / zoom.value),
+      ZOOM_CONFIG.max / zoom.value,
+    )
+  }
+
+  const startGesture = (clientX: number, clientY: number) => {
+    const rect = contentRef.value?.getBoundingClientRect()
+    if (!rect) return false
+    anchor = { clientX, clientY }
+    origin.value = { x: clientX - rect.left, y: clientY - rect.top }
+    gestureScale.value = 1
+    return true
+  }
+
+  const endGesture = () => {
+    if (endTimer) clearTimeout(endTimer)
+    endTimer = null
+    const gestureAnchor = anchor
+    const nextZoom = clampZoom(zoom.value * gestureScale.value)
+    anchor = null
+    origin.value = null
+    gestureScale.value = 1
+    if (gestureAnchor && nextZoom !== zoom.value) {
+      options.onZoom(nextZoom, gestureAnchor)
+    }
+  }
+
+  const handleWheel = (e: WheelEvent) => {
+    // トラックパッドのピンチは ctrlKey 付きの wheel として届く
+    if (!e.ctrlKey && !e.metaKey) return
+    e.preventDefault()
+    if (!origin.value && !startGesture(e.clientX, e.clientY)) return
+
+    // 行単位 (Firefox) の delta はおおよその px に直す
+    const delta =
+      e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY
+    const clamped = Math.min(Math.max(delta, -MAX_WHEEL_DELTA), MAX_WHEEL_DELTA)
+    setGestureScale(
+      gestureScale.value * Math.exp(-clamped * WHEEL_ZOOM_SENSITIVITY),
+    )
+
+    if (endTimer) clearTimeout(endTimer)
+    endTimer = setTimeout(endGesture, GESTURE_END_DELAY)
+  }
+
+  const handleGestureStart = (e: Event) => {
+    const gesture = e as SafariGestureEvent
+    e.preventDefault()
+    startGesture(gesture.clientX, gesture.clientY)
+  }
+
+  const handleGestureChange = (e: Event) => {
+    if (!origin.value) return
+    e.preventDefault()
+    // scale はジェスチャー開始時からの倍率
+    setGestureScale((e as SafariGestureEvent).scale)
+  }
+
+  const handleGestureEnd = (e: Event) => {
+    if (!origin.value) return
+    e.preventDefault()
+    endGesture()
+  }
+
+  watch(
+    containerRef,
+    (container, previous) => {
+      previous?.removeEventListener("gesturestart", handleGestureStart)
+      previous?.removeEventListener("gesturechange", handleGestureChange)
+      previous?.removeEventListener("gestureend", handleGestureEnd)
+      container?.addEventListener("gesturestart", handleGestureStart)
+      container?.addEventListener("gesturechange", handleGestureChange)
+      container?.addEventListener("gestureend", handleGestureEnd)
+    },
+    { immediate: true },
+  )
+
+  onBeforeUnmount(() => {
+    if (endTimer) clearTimeout(endTimer)
+    const container = containerRef.value
+    container?.removeEventListener("gesturestart", handleGestureStart)
+    container?.removeEventListener("gesturechange", handleGestureChange)
+    container?.removeEventListener("gestureend", handleGestureEnd)
+  })
+
+  return { gestureStyle, handleWheel }
+}
@@ -0,0 +1,358 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { ComputedRef, Ref, ShallowRef } from "vue"
+import { computed, onBeforeUnmount, ref, watch } from "vue"
+import type { SearchOptions, SearchResult } from "~/types"
+import { extractPageTexts } from "~/utils/pageTextExtraction"
+import {
+  type SearchWorkerRequest,
+  type SearchWorkerResponse,
+  TEXT_ITEM_SEPARATOR,
+} from "~/utils/searchIndex"
+import {
+  createSearchMatcher,
+  DEFAULT_SEARCH_OPTIONS,
+} from "~/utils/searchMatcher"
+import { createSearchWorker } from "~/utils/searchWorker"
+
+const SEARCH_DEBOUNCE_MS = 150
+
+export interface UseSearchOptions {
+  pdfDocument: ShallowRef<PDFDocumentProxy | null>
+  fingerprint: Ref<string | null>
+  goToPage: (page: number) => void
+}
+
+export interface UseSearchResult {
+  searchQuery: Ref<string>
+  searchOptions: Ref<SearchOptions>
+  /** Set when the query is not a valid regex */
+  searchError: Ref<string | null>
+  searchResults: Ref<SearchResult[]>
+  currentSearchIndex: Ref<number>
+  isSearching: Ref<boolean>
+  showSearchResults: Ref<boolean>
+  /** Number of pages in the index; results cover only these pages */
+  indexedPages: Ref<number>
+  isIndexing: ComputedRef<boolean>
+  focusedResult: ComputedRef<SearchResult | null>
+  /** Updates the query and searches after a short debounce */
+  handleSearchChange: (query: string) => void
+  /** Changes matching options and searches again */
+  setSearchOptions: (options: Partial<SearchOptions>) => void
+  /** Replaces the query and options and searches immediately */
+  runSearch: (query: string, options: SearchOptions) => void
+  /**
+   * Number of matches in the pages indexed so far, without touching the
+   * current results; null when the document changes before the answer
+   */
+  countMatches: (
+    query: string,
+    options: SearchOptions,
+  ) => Promise<number | null>
+  /** Replaces the indexed text of a page, e.g. after OCR */
+  reindexPage: (page: number, lines: string[]) => void
+  selectResult: (index: number) => void
+  /** Selects the given match once it appears in the results */
+  focusResult: (target: Pick<SearchResult, "page" | "matchIndex">) => void
+  searchNext: () => void
+  searchPrev: () => void
+  closeSearch: () => void
+}
+
+/**
+ * Full-text search backed by an inverted index in a Web Worker
+ *
+ * When a document opens, pages missing from the stored index are
+ * extracted in the background and sent to the worker; queries are
+ * answered by the worker from the index, and re-run while indexing
+ * is still in progress so results fill in as pages are added
+ */
+export function useSearch(options: UseSearchOptions): UseSearchResult {
+  const { pdfDocument, fingerprint, goToPage } = options
+
+  const searchQuery = ref("")
+  const searchOptions = ref<SearchOptions>({ ...DEFAULT_SEARCH_OPTIONS })
+  const searchError = ref<string | null>(null)
+  const searchResults = ref<SearchResult[]>([])
+  const currentSearchIndex = ref(0)
+  const isSearching = ref(false)
+  const showSearchResults = ref(false)
+  const indexedPages = ref(0)
+  const totalPages = ref(0)
+
+  let worker: Worker | null = null
+  let searchRequestId = 0
+  // 索引の進行による再検索では選択中の結果を保つ
+  let keepSelection = false
+  // 本棚の検索結果から開いた場合に選択する一致箇所
+  let pendingFocus: Pick<SearchResult, "page" | "matchIndex"> | null = null
+  // 文書を切り替えたら古い抽出処理を止めるためのトークン
+  let indexingToken = 0
+  let debounceId: ReturnType<typeof setTimeout> | null = null
+  let countRequestId = 0
+  const pendingCounts = new Map<number, (count: number | null) => void>()
+
+  const isIndexing = computed(
+    () => totalPages.value > 0 && indexedPages.value < totalPages.value,
+  )
+
+  const focusedResult = computed(
+    () => searchResults.value[currentSearchIndex.value] ?? null,
+  )
+
+  const post = (message: SearchWorkerRequest) => {
+    worker?.postMessage(message)
+  }
+
+  const performSearch = (query: string, rerun = false) => {
+    keepSelection = rerun
+    searchError.value = null
+    const documentFingerprint = fingerprint.value
+    if (!query.trim() || !documentFingerprint || !worker) {
+      searchRequestId++
+      searchResults.value = []
+      currentSearchIndex.value = 0
+      isSearching.value = false
+      showSearchResults.value = false
+      return
+    }
+    showSearchResults.value = true
+    try {
+      createSearchMatcher(query, searchOptions.value)
+    } catch (error) {
+      // 入力途中の正規表現はエラーを表示するだけにする
+      searchRequestId++
+      searchError.value = error instanceof Error ? error.message : String(error)
+      searchResults.value = []
+      isSearching.value = false
+      return
+    }
+    isSearching.value = true
+    post({
+      type: "search",
+      id: ++searchRequestId,
+      fingerprint: documentFingerprint,
+      query,
+      // リアクティブなプロキシは postMessage で複製できない
+      options: { ...searchOptions.value },
+    })
+  }
+
+  const handleWorkerMessage = (event: MessageEvent<SearchWorkerResponse>) => {
+    const message = event.data
+    if (message.type === "error") {
+      console.error("Search worker error:", message.message)
+      isSearching.value = false
+      return
+    }
+    if (message.type === "closed" || message.type === "libraryResults") return
+    if (message.type === "counted") {
+      pendingCounts.get(message.id)?.(message.count)
+      pendingCounts.delete(message.id)
+      return
+    }
+    if (message.fingerprint !== fingerprint.value) return
+
+    switch (message.type) {
+      case "opened": {
+        const doc = pdfDocument.value
+        indexedPages.value = totalPages.value - message.missingPages.length
+        if (doc && message.missingPages.length > 0) {
+          const token = indexingToken
+          void extractPageTexts(doc, message.missingPages, {
+            isCancelled: () => token !== indexingToken,
+            onBatch: (pages) =>
+              post({
+                type: "addPages",
+                fingerprint: message.fingerprint,
+                pages,
+              }),
+          })
+        }
+        if (searchQuery.value) performSearch(searchQuery.value)
+        break
+      }
+      case "indexed": {
+        indexedPages.value = message.indexedPages
+        // 索引の途中で検索した場合は新しいページを含めて検索し直す
+        if (searchQuery.value && !isSearching.value) {
+          performSearch(searchQuery.value, true)
+        }
+        break
+      }
+      case "results": {
+        if (message.id !== searchRequestId) return
+        const previous =
+          pendingFocus ?? (keepSelection ? focusedResult.value : null)
+        searchResults.value = message.results
+        indexedPages.value = message.indexedPages
+        isSearching.value = false
+        const kept = previous
+          ? message.results.findIndex(
+              (r) =>
+                r.page === previous.page &&
+                r.matchIndex === previous.matchIndex,
+            )
+          : -1
+        currentSearchIndex.value = Math.max(kept, 0)
+        // 索引が済むまでは対象ページが結果に現れないことがある
+        if (kept >= 0 || !isIndexing.value) pendingFocus = null
+        break
+      }
+    }
+  }
+
+  const ensureWorker = () => {
+    if (worker || !import.meta.client) return
+    worker = createSearchWorker()
+    worker.addEventListener("message", handleWorkerMessage)
+  }
+
+  // 文書を切り替えると worker は前の文書の件数を返さない
+  const cancelPendingCounts = () => {
+    for (const resolve of pendingCounts.values()) resolve(null)
+    pendingCounts.clear()
+  }
+
+  watch(
+    [pdfDocument, fingerprint],
+    ([doc, documentFingerprint]) => {
+      indexingToken++
+      searchRequestId++
+      cancelPendingCounts()
+      searchResults.value = []
+      currentSearchIndex.value = 0
+      isSearching.value = false
+      indexedPages.value = 0
+      totalPages.value = doc?.numPages ?? 0
+
+      if (!doc || !documentFingerprint) {
+        post({ type: "close" })
+        return
+      }
+      ensureWorker()
+      post({
+        type: "open",
+        fingerprint: documentFingerprint,
+        pageCount: doc.numPages,
+      })
+    },
+    { immediate: true },
+  )
+
+  const handleSearchChange = (query: string) => {
+    pendingFocus = null
+    searchQuery.value = query
+    if (debounceId) clearTimeout(debounceId)
+    debounceId = setTimeout(() => performSearch(query), SEARCH_DEBOUNCE_MS)
+  }
+
+  const setSearchOptions = (options: Partial<SearchOptions>) => {
+    searchOptions.value = { ...searchOptions.value, ...options }
+    if (searchQuery.value) performSearch(searchQuery.value)
+  }
+
+  const runSearch = (query: string, options: SearchOptions) => {
+    if (debounceId) clearTimeout(debounceId)
+    pendingFocus = null
+    searchQuery.value = query
+    searchOptions.value = { ...options }
+    performSearch(query)
+  }
+
+  const countMatches = (query: string, options: SearchOptions) =>
+    new Promise<number | null>((resolve) => {
+      if (!worker || !fingerprint.value) {
+        resolve(null)
+        return
+      }
+      const id = ++countRequestId
+      pendingCounts.set(id, resolve)
+      post({
+        type: "count",
+        id,
+        fingerprint: fingerprint.value,
+        query,
+        options: { ...options },
+      })
+    })
+
+  const selectResult = (index: number) => {
+    const result = searchResults.value[index]
+    if (!result) return
+    currentSearchIndex.value = index
+    goToPage(result.page)
+  }
+
+  const focusResult = (target: Pick<SearchResult, "page" | "matchIndex">) => {
+    pendingFocus = { page: target.page, matchIndex: target.matchIndex }
+  }
+
+  const searchNext = () => {
+    const count = searchResults.value.length
+    if (count === 0) return
+    selectResult((currentSearchIndex.value + 1) % count)
+  }
+
+  const searchPrev = () => {
+    const count = searchResults.value.length
+    if (count === 0) return
+    selectResult((currentSearchIndex.value - 1 + count) % count)
+  }
+
+  const reindexPage = (page: number, lines: string[]) => {
+    const documentFingerprint = fingerprint.value
+    if (!documentFingerprint) return
+    post({
+      type: "addPages",
+      fingerprint: documentFingerprint,
+      pages: [{ page, text: lines.join(TEXT_ITEM_SEPARATOR) }],
+    })
+  }
+
+  const closeSearch = () => {
+    if (debounceId) clearTimeout(debounceId)
+    pendingFocus = null
+    searchQuery.value = ""
+    performSearch("")
+  }
+
+  onBeforeUnmount(() => {
+    if (debounceId) clearTimeout(debounceId)
+    indexingToken++
+    cancelPendingCounts()
+    if (worker) {
+      // 途中までの索引を保存し終えてから終了する
+      const closing = worker
+      worker = null
+      closing.removeEventListener("message", handleWorkerMessage)
+      closing.addEventListener("message", (event) => {
+        if (event.data?.type === "closed") closing.terminate()
+      })
+      closing.postMessage({ type: "close" } satisfies SearchWorkerRequest)
+    }
+  })
+
+  return {
+    searchQuery,
+    searchOptions,
+    searchError,
+    searchResults,
+    currentSearchIndex,
+    isSearching,
+    showSearchResults,
+    indexedPages,
+    isIndexing,
+    focusedResult,
+    handleSearchChange,
+    setSearchOptions,
+    runSearch,
+    countMatches,
+    reindexPage,
+    selectResult,
+    focusResult,
+    searchNext,
+    searchPrev,
+    closeSearch,
+  }
+}
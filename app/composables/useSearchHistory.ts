@@ -0,0 +1,134 @@
+import type { ComputedRef, Ref } from "vue"
+import { onMounted, ref, watch } from "vue"
+import type { SavedSearch, SearchHistoryEntry, SearchOptions } from "~/types"
+import {
+  addSearchHistoryEntry,
+  DOCUMENT_HISTORY_LIMIT,
+  GLOBAL_HISTORY_LIMIT,
+  getGlobalSearchHistory,
+  isSameSearch,
+  saveGlobalSearchHistory,
+} from "~/utils/searchHistory"
+
+export interface UseSearchHistoryOptions {
+  /** History of the open document (session state) */
+  searchHistory: Ref<SearchHistoryEntry[]>
+  /** Saved searches of the open document (session state) */
+  savedSearches: Ref<SavedSearch[]>
+  fingerprint: Ref<string | null>
+  /** Becomes false once every page is in the search index */
+  isIndexing: ComputedRef<boolean>
+  countMatches: (
+    query: string,
+    options: SearchOptions,
+  ) => Promise<number | null>
+}
+
+export interface UseSearchHistoryResult {
+  /** Recent queries across documents, newest first */
+  globalHistory: Ref<SearchHistoryEntry[]>
+  /** Hit counts of the saved searches by id; missing while counting */
+  savedSearchCounts: Ref<Record<string, number>>
+  isCurrentSearchSaved: (query: string, options: SearchOptions) => boolean
+  recordSearch: (query: string, options: SearchOptions) => void
+  saveSearch: (query: string, options: SearchOptions) => void
+  removeSavedSearch: (id: string) => void
+  clearHistory: () => void
+}
+
+/**
+ * Search history (per document and global) and saved searches
+ *
+ * Saved searches are counted again whenever the document opens or its
+ * index completes, so the counts cover every page once indexing ends
+ */
+export function useSearchHistory(
+  options: UseSearchHistoryOptions,
+): UseSearchHistoryResult {
+  const { searchHistory, savedSearches, fingerprint, isIndexing } = options
+
+  const globalHistory = ref<SearchHistoryEntry[]>([])
+  const savedSearchCounts = ref<Record<string, number>>({})
+  let countToken = 0
+
+  const isCurrentSearchSaved = (query: string, options: SearchOptions) =>
+    savedSearches.value.some((s) => isSameSearch(s, { query, options }))
+
+  const recordSearch = (query: string, options: SearchOptions) => {
+    if (!query.trim()) return
+    const entry: SearchHistoryEntry = {
+      query,
+      options: { ...options },
+      searchedAt: Date.now(),
+    }
+    searchHistory.value = addSearchHistoryEntry(
+      searchHistory.value,
+      entry,
+      DOCUMENT_HISTORY_LIMIT,
+    )
+    globalHistory.value = addSearchHistoryEntry(
+      globalHistory.value,
+      entry,
+      GLOBAL_HISTORY_LIMIT,
+    )
+    saveGlobalSearchHistory(globalHistory.value)
+  }
+
+  const saveSearch = (query: string, options: SearchOptions) => {
+    if (!query.trim() || isCurrentSearchSaved(query, options)) return
+    savedSearches.value = [
+      ...savedSearches.value,
+      {
+        id: crypto.randomUUID(),
+        query,
+        options: { ...options },
+        createdAt: Date.now(),
+      },
+    ]
+  }
+
+  const removeSavedSearch = (id: string) => {
+    savedSearches.value = savedSearches.value.filter((s) => s.id !== id)
+  }
+
+  const clearHistory = () => {
+    searchHistory.value = []
+    globalHistory.value = []
+    saveGlobalSearchHistory([])
+  }
+
+  const refreshCounts = async () => {
+    const token = ++countToken
+    savedSearchCounts.value = {}
+    if (!fingerprint.value) return
+    for (const search of savedSearches.value) {
+      const count = await options.countMatches(search.query, search.options)
+      // 文書の切り替えや再計算が始まったら古い結果は捨てる
+      if (token !== countToken) return
+      if (count !== null) {
+        savedSearchCounts.value = {
+          ...savedSearchCounts.value,
+          [search.id]: count,
+        }
+      }
+    }
+  }
+
+  watch([fingerprint, savedSearches, () => isIndexing.value], () => {
+    void refreshCounts()
+  })
+
+  onMounted(() => {
+    globalHistory.value = getGlobalSearchHistory()
+  })
+
+  return {
+    globalHistory,
+    savedSearchCounts,
+    isCurrentSearchSaved,
+    recordSearch,
+    saveSearch,
+    removeSavedSearch,
+    clearHistory,
+  }
+}
@@ -0,0 +1,84 @@
+import type { Ref, WatchSource } from "vue"
+import { onBeforeUnmount, watch } from "vue"
+import { useSessionStore } from "~/composables/useSessionStore"
+import type { PdfSessionState } from "~/types"
+
+const SAVE_DEBOUNCE_MS = 500
+
+export interface UseSessionPersistenceOptions {
+  /** Fingerprint of the open document; nothing is saved while null */
+  fingerprint: Ref<string | null>
+  /** Builds the state to save from the current viewer state */
+  getState: () => PdfSessionState
+  /** Reactive sources whose changes should trigger a save */
+  sources: WatchSource[]
+}
+
+export interface UseSessionPersistenceResult {
+  /** Saves immediately, cancelling any pending debounced save */
+  flushSession: () => Promise<void>
+  /** Suspends saving while a restored session is being applied */
+  runWithoutSaving: (apply: () => void | Promise<void>) => Promise<void>
+}
+
+/**
+ * Saves the session of the open document with debouncing to prevent
+ * excessive writes
+ */
+export function useSessionPersistence(
+  options: UseSessionPersistenceOptions,
+): UseSessionPersistenceResult {
+  const { fingerprint, getState, sources } = options
+  const { saveSession } = useSessionStore()
+  let saveTimeoutId: ReturnType<typeof setTimeout> | null = null
+  let isRestoring = false
+
+  const cancelPendingSave = () => {
+    if (saveTimeoutId) {
+      clearTimeout(saveTimeoutId)
+      saveTimeoutId = null
+    }
+  }
+
+  const flushSession = async () => {
+    cancelPendingSave()
+    if (!fingerprint.value) return
+    try {
+      await saveSession(fingerprint.value, getState())
+    } catch (error) {
+      console.error("Failed to save session state:", error)
+    }
+  }
+
+  watch(
+    sources,
+    () => {
+      // Don't save during session restoration to prevent overwriting restored data
+      if (!fingerprint.value || isRestoring) return
+      cancelPendingSave()
+      saveTimeoutId = setTimeout(flushSession, SAVE_DEBOUNCE_MS)
+    },
+    { deep: true },
+  )
+
+  const runWithoutSaving = async (apply: () => void | Promise<void>) => {
+    cancelPendingSave()
+    isRestoring = true
+    try {
+      await apply()
+    } finally {
+      // watch のコールバックが走り終わってから保存を再開する
+      setTimeout(() => {
+        isRestoring = false
+      }, 0)
+    }
+  }
+
+  onBeforeUnmount(() => {
+    if (saveTimeoutId) {
+      void flushSession()
+    }
+  })
+
+  return { flushSession, runWithoutSaving }
+}
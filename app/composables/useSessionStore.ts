@@ -0,0 +1,213 @@
+import type { PdfSessionState, RecentFile } from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import { DEFAULT_SPREAD_LAYOUT } from "~/utils/pageSpread"
+
+const DB_NAME = "pedaru-sessions"
+const DB_VERSION = 1
+const SESSION_STORE = "sessions"
+const LAST_OPENED_KEY = "pedaru_last_opened_fingerprint"
+
+/**
+ * Version of the PdfSessionState shape written to the store
+ * Bump this and add an entry to sessionMigrations when fields change
+ */
+export const SESSION_SCHEMA_VERSION = 6
+
+interface StoredSessionRecord {
+  fingerprint: string
+  schemaVersion: number
+  lastOpened: number
+  state: PdfSessionState
+}
+
+type SessionMigration = (
+  state: Record<string, unknown>,
+) => Record<string, unknown>
+
+// key = 移行元のバージョン。順番に適用して SESSION_SCHEMA_VERSION まで上げる
+const sessionMigrations: Record<number, SessionMigration> = {
+  // v2: ハイライトを追加
+  1: (state) => ({ ...state, highlights: state.highlights ?? [] }),
+  // v3: メモを追加
+  2: (state) => ({ ...state, notes: state.notes ?? [] }),
+  // v4: 検索履歴と保存した検索を追加
+  3: (state) => ({
+    ...state,
+    searchHistory: state.searchHistory ?? [],
+    savedSearches: state.savedSearches ?? [],
+  }),
+  // v5: 倍率の決め方 (幅に合わせるなど) を追加
+  4: (state) => ({
+    ...state,
+    zoomMode: state.zoomMode ?? "custom",
+    windows: ((state.windows as Record<string, unknown>[]) ?? []).map(
+      (window) => ({ zoomMode: "custom", ...window }),
+    ),
+  }),
+  // v6: 見開きの組み方 (表紙を単独にする・右開き) を追加
+  5: (state) => ({
+    ...state,
+    spreadLayout: state.spreadLayout ?? { ...DEFAULT_SPREAD_LAYOUT },
+  }),
+}
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const store = db.createObjectStore(SESSION_STORE, {
+        keyPath: "fingerprint",
+      })
+      store.createIndex("lastOpened", "lastOpened")
+    }
+  },
+)
+
+export function createDefaultSessionState(): PdfSessionState {
+  return {
+    lastOpened: Date.now(),
+    page: 1,
+    zoom: 1.0,
+    zoomMode: "custom",
+    viewMode: "single",
+    spreadLayout: { ...DEFAULT_SPREAD_LAYOUT },
+    activeTabIndex: null,
+    tabs: [],
+    windows: [],
+    bookmarks: [],
+    highlights: [],
+    notes: [],
+    searchHistory: [],
+    savedSearches: [],
+    pageHistory: [],
+    historyIndex: -1,
+  }
+}
+
+function migrateSessionRecord(record: StoredSessionRecord): PdfSessionState {
+  let state = record.state as unknown as Record<string, unknown>
+  for (
+    let version = record.schemaVersion ?? 0;
+    version < SESSION_SCHEMA_VERSION;
+    version++
+  ) {
+    const migrate = sessionMigrations[version]
+    if (migrate) {
+      state = migrate(state)
+    }
+  }
+  // 古いレコードに存在しないフィールドはデフォルト値で補完する
+  return { ...createDefaultSessionState(), ...state } as PdfSessionState
+}
+
+export interface UseSessionStoreResult {
+  saveSession: (fingerprint: string, state: PdfSessionState) => Promise<void>
+  loadSession: (fingerprint: string) => Promise<PdfSessionState | null>
+  deleteSession: (fingerprint: string) => Promise<void>
+  getRecentFiles: (limit?: number) => Promise<RecentFile[]>
+  getLastOpenedFingerprint: () => string | null
+}
+
+export function useSessionStore(): UseSessionStoreResult {
+  const saveSession = async (fingerprint: string, state: PdfSessionState) => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction(SESSION_STORE, "readwrite")
+    const record: StoredSessionRecord = {
+      fingerprint,
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      lastOpened: state.lastOpened,
+      state,
+    }
+    tx.objectStore(SESSION_STORE).put(record)
+    await transactionDone(tx)
+
+    localStorage.setItem(LAST_OPENED_KEY, fingerprint)
+  }
+
+  const loadSession = async (
+    fingerprint: string,
+  ): Promise<PdfSessionState | null> => {
+    if (!isIndexedDbAvailable()) return null
+
+    const db = await connect()
+    const record = await requestToPromise<StoredSessionRecord | undefined>(
+      db
+        .transaction(SESSION_STORE, "readonly")
+        .objectStore(SESSION_STORE)
+        .get(fingerprint),
+    )
+    if (!record) return null
+
+    const state = migrateSessionRecord(record)
+    if (record.schemaVersion !== SESSION_SCHEMA_VERSION) {
+      // 移行済みの形で書き戻しておく
+      await saveSession(fingerprint, state)
+    }
+    return state
+  }
+
+  const deleteSession = async (fingerprint: string) => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction(SESSION_STORE, "readwrite")
+    tx.objectStore(SESSION_STORE).delete(fingerprint)
+    await transactionDone(tx)
+
+    if (localStorage.getItem(LAST_OPENED_KEY) === fingerprint) {
+      localStorage.removeItem(LAST_OPENED_KEY)
+    }
+  }
+
+  const getRecentFiles = async (limit: number = 10): Promise<RecentFile[]> => {
+    if (!isIndexedDbAvailable()) return []
+
+    const db = await connect()
+    const index = db
+      .transaction(SESSION_STORE, "readonly")
+      .objectStore(SESSION_STORE)
+      .index("lastOpened")
+
+    return new Promise((resolve, reject) => {
+      const files: RecentFile[] = []
+      const request = index.openCursor(null, "prev")
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || files.length >= limit) {
+          resolve(files)
+          return
+        }
+        const record = cursor.value as StoredSessionRecord
+        files.push({
+          fingerprint: record.fingerprint,
+          filePath: record.state.filePath,
+          name: record.state.name,
+          lastOpened: record.lastOpened,
+        })
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  const getLastOpenedFingerprint = (): string | null => {
+    if (typeof localStorage === "undefined") return null
+    return localStorage.getItem(LAST_OPENED_KEY)
+  }
+
+  return {
+    saveSession,
+    loadSession,
+    deleteSession,
+    getRecentFiles,
+    getLastOpenedFingerprint,
+  }
+}
@@ -0,0 +1,229 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { Ref, ShallowRef } from "vue"
+import { ref, watch } from "vue"
+import type { TextSelection } from "~/types"
+import { getPageTextItems } from "~/utils/pdfjs"
+
+const CONTEXT_LENGTH = 500 // Characters before/after
+
+export interface UseTextSelectionResult {
+  selection: Ref<TextSelection | null>
+  autoExplain: Ref<boolean>
+  clearSelection: () => void
+  /** Opens the popup for the current selection (Cmd+J, or Cmd+E with explanation) */
+  triggerTranslation: (withExplanation?: boolean) => Promise<void>
+  triggerExplanation: () => Promise<void>
+}
+
+// Determine if selection is a single word
+function isWordSelection(text: string): boolean {
+  const trimmed = text.trim()
+  if (trimmed.includes(" ") || trimmed.length > 30) return false
+  // Also check for punctuation that indicates sentences
+  return !/[.!?;:,。、！？；：，]/.test(trimmed)
+}
+
+/**
+ * Character offset and page number of the selection start, measured in
+ * the same space-joined text that getPageText returns
+ */
+function getSelectionInfo(): { offset: number; pageNumber: number } | null {
+  const windowSelection = window.getSelection()
+  if (!windowSelection || windowSelection.rangeCount === 0) return null
+
+  const range = windowSelection.getRangeAt(0)
+  const startElement =
+    range.startContainer instanceof Element
+      ? range.startContainer
+      : range.startContainer.parentElement
+  const selectedSpan = startElement?.closest("span[data-text-index]")
+  const textLayer = selectedSpan?.closest(".custom-text-layer")
+  if (!selectedSpan || !textLayer) return null
+
+  const spanIndex = Number.parseInt(
+    selectedSpan.getAttribute("data-text-index") ?? "-1",
+    10,
+  )
+  const pageNumber = Number.parseInt(
+    textLayer.getAttribute("data-page-number") ?? "-1",
+    10,
+  )
+  if (spanIndex < 0 || pageNumber < 0) return null
+
+  // 選択スパンより前のスパンの文字数 + 結合用スペースを合計する
+  let offset = 0
+  for (const span of textLayer.querySelectorAll("span[data-text-index]")) {
+    const index = Number.parseInt(
+      span.getAttribute("data-text-index") ?? "-1",
+      10,
+    )
+    if (index < spanIndex) {
+      offset += (span.textContent ?? "").length + 1
+    }
+  }
+
+  const prefix = document.createRange()
+  prefix.setStart(selectedSpan, 0)
+  prefix.setEnd(range.startContainer, range.startOffset)
+  return { offset: offset + prefix.toString().length, pageNumber }
+}
+
+/**
+ * Detects the PDF text selection and builds the popup data
+ * Translation is triggered manually via Cmd+J, not automatically on selection
+ */
+export function useTextSelection(
+  pdfDocument: ShallowRef<PDFDocumentProxy | null>,
+  currentPage: Ref<number>,
+): UseTextSelectionResult {
+  const selection = ref<TextSelection | null>(null)
+  const autoExplain = ref(false)
+  const pageTextCache = new Map<number, string>()
+  let requestId = 0
+
+  // ドキュメントが変わったらページテキストのキャッシュを捨てる
+  watch(pdfDocument, () => {
+    pageTextCache.clear()
+  })
+
+  const clearSelection = () => {
+    selection.value = null
+    autoExplain.value = false
+  }
+
+  const getPageText = async (pageNum: number): Promise<string> => {
+    const cached = pageTextCache.get(pageNum)
+    if (cached !== undefined) return cached
+
+    const doc = pdfDocument.value
+    if (!doc || pageNum < 1 || pageNum > doc.numPages) return ""
+
+    try {
+      const page = await doc.getPage(pageNum)
+      const items = await getPageTextItems(page)
+      const text = items.map((item) => item.str).join(" ")
+      // 文字のないページは OCR 後に読み直せるようキャッシュしない
+      if (text) pageTextCache.set(pageNum, text)
+      return text
+    } catch (error) {
+      console.warn("Failed to get page text:", error)
+      return ""
+    }
+  }
+
+  // Get surrounding context for the selection (before and after separately)
+  const getContextParts = async (
+    selectedText: string,
+    pageNum: number,
+    selectionOffset: number,
+  ): Promise<{ contextBefore: string; contextAfter: string }> => {
+    const [prevPageText, currentPageText, nextPageText] = await Promise.all([
+      getPageText(pageNum - 1),
+      getPageText(pageNum),
+      getPageText(pageNum + 1),
+    ])
+    const fullText = [prevPageText, currentPageText, nextPageText].join(" ")
+    const prevPageLength = prevPageText.length + 1
+
+    let selectionIndex = -1
+    if (selectionOffset >= 0) {
+      const estimatedIndex = prevPageLength + selectionOffset
+      // 推定位置の近くで選択テキストと一致する位置を探す
+      for (const delta of [0, -1, 1, -2, 2, -5, 5, -10, 10, -20, 20]) {
+        const testIndex = estimatedIndex + delta
+        if (
+          testIndex >= 0 &&
+          fullText.slice(testIndex, testIndex + selectedText.length) ===
+            selectedText
+        ) {
+          selectionIndex = testIndex
+          break
+        }
+      }
+      if (selectionIndex === -1) {
+        selectionIndex = Math.max(
+          0,
+          Math.min(estimatedIndex, fullText.length - 1),
+        )
+      }
+    } else {
+      const indexInCurrentPage = currentPageText.indexOf(selectedText)
+      selectionIndex =
+        indexInCurrentPage !== -1
+          ? prevPageLength + indexInCurrentPage
+          : fullText.indexOf(selectedText)
+    }
+
+    if (selectionIndex === -1) {
+      const halfLength = Math.min(CONTEXT_LENGTH, currentPageText.length / 2)
+      return {
+        contextBefore: `...${currentPageText.slice(0, halfLength)}`,
+        contextAfter: `${currentPageText.slice(-halfLength)}...`,
+      }
+    }
+
+    const beforeStart = Math.max(0, selectionIndex - CONTEXT_LENGTH)
+    const afterStart = selectionIndex + selectedText.length
+    const afterEnd = Math.min(fullText.length, afterStart + CONTEXT_LENGTH)
+    const contextBefore = fullText.slice(beforeStart, selectionIndex)
+    const contextAfter = fullText.slice(afterStart, afterEnd)
+    return {
+      contextBefore: beforeStart > 0 ? `...${contextBefore}` : contextBefore,
+      contextAfter:
+        afterEnd < fullText.length ? `${contextAfter}...` : contextAfter,
+    }
+  }
+
+  const triggerTranslation = async (withExplanation = false) => {
+    const windowSelection = window.getSelection()
+    if (!windowSelection || windowSelection.isCollapsed) return
+
+    const selectedText = windowSelection.toString().trim()
+    if (!selectedText) return
+
+    // Check if selection is within the PDF viewer
+    const range = windowSelection.getRangeAt(0)
+    const pdfViewer = document.getElementById("pdf-viewer-container")
+    if (!pdfViewer?.contains(range.commonAncestorContainer)) return
+
+    // Read the DOM position before the selection can change
+    const selectionInfo = getSelectionInfo()
+    const selectionOffset = selectionInfo?.offset ?? -1
+    const selectionPage = selectionInfo?.pageNumber ?? currentPage.value
+
+    const rect = range.getBoundingClientRect()
+    const base: TextSelection = {
+      selectedText,
+      contextBefore: "",
+      contextAfter: "",
+      isWord: isWordSelection(selectedText),
+      position: { x: rect.right + 10, y: rect.top },
+      contextLoading: true,
+      pageNumber: selectionPage,
+    }
+
+    const id = ++requestId
+    autoExplain.value = withExplanation
+    // Show popup immediately with loading state
+    selection.value = base
+
+    const context = await getContextParts(
+      selectedText,
+      selectionPage,
+      selectionOffset,
+    )
+    if (id === requestId && selection.value) {
+      selection.value = { ...base, ...context, contextLoading: false }
+    }
+  }
+
+  const triggerExplanation = () => triggerTranslation(true)
+
+  return {
+    selection,
+    autoExplain,
+    clearSelection,
+    triggerTranslation,
+    triggerExplanation,
+  }
+}
@@ -0,0 +1,138 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { Ref, ShallowRef } from "vue"
+import { onBeforeUnmount, shallowRef, triggerRef, watch } from "vue"
+import {
+  getCachedThumbnail,
+  putCachedThumbnail,
+  renderThumbnail,
+} from "~/utils/thumbnails"
+
+/** Thumbnails kept as object URLs; older ones are reloaded on demand */
+const MAX_MEMORY_THUMBNAILS = 200
+
+export interface UseThumbnailsOptions {
+  pdfDocument: Ref<PDFDocumentProxy | null>
+  fingerprint: Ref<string | null>
+}
+
+export interface UseThumbnailsResult {
+  /** Object URLs of the loaded thumbnails by page */
+  thumbnailUrls: ShallowRef<Map<number, string>>
+  /** Queues a page that came into view */
+  requestThumbnail: (page: number) => void
+  /** Drops a queued page that left the view before it was generated */
+  cancelThumbnail: (page: number) => void
+}
+
+function onIdle(callback: () => void): void {
+  if ("requestIdleCallback" in window) {
+    requestIdleCallback(callback, { timeout: 500 })
+  } else {
+    setTimeout(callback, 0)
+  }
+}
+
+/**
+ * Lazily generated page thumbnails
+ *
+ * Requested pages are rendered one at a time in idle time, or read from
+ * the IndexedDB cache, and the most recently used ones stay in memory
+ */
+export function useThumbnails(
+  options: UseThumbnailsOptions,
+): UseThumbnailsResult {
+  const { pdfDocument, fingerprint } = options
+
+  // Map の挿入順を LRU の順として使う (古いものが先頭)
+  const thumbnailUrls = shallowRef(new Map<number, string>())
+  let pending: number[] = []
+  let isProcessing = false
+  let token = 0
+
+  const reset = () => {
+    token++
+    for (const url of thumbnailUrls.value.values()) URL.revokeObjectURL(url)
+    thumbnailUrls.value = new Map()
+    pending = []
+    isProcessing = false
+  }
+
+  const storeUrl = (page: number, url: string) => {
+    const urls = thumbnailUrls.value
+    urls.set(page, url)
+    for (const [oldPage, oldUrl] of urls) {
+      if (urls.size <= MAX_MEMORY_THUMBNAILS) break
+      URL.revokeObjectURL(oldUrl)
+      urls.delete(oldPage)
+    }
+    triggerRef(thumbnailUrls)
+  }
+
+  const loadThumbnail = async (
+    doc: PDFDocumentProxy,
+    documentFingerprint: string,
+    page: number,
+  ) => {
+    const cached = await getCachedThumbnail(documentFingerprint, page).catch(
+      () => null,
+    )
+    if (cached) return cached
+    const image = await renderThumbnail(await doc.getPage(page))
+    await putCachedThumbnail(documentFingerprint, page, image).catch(
+      (error) => {
+        console.warn("Failed to cache thumbnail:", error)
+      },
+    )
+    return image
+  }
+
+  const processNext = () => {
+    const doc = pdfDocument.value
+    const documentFingerprint = fingerprint.value
+    const page = pending.shift()
+    if (!doc || !documentFingerprint || page === undefined) {
+      isProcessing = false
+      return
+    }
+    const currentToken = token
+    onIdle(async () => {
+      try {
+        const image = await loadThumbnail(doc, documentFingerprint, page)
+        if (currentToken !== token) return
+        storeUrl(page, URL.createObjectURL(image))
+      } catch (error) {
+        if (currentToken === token) {
+          console.warn(`Failed to create thumbnail of page ${page}:`, error)
+        }
+      }
+      if (currentToken === token) processNext()
+    })
+  }
+
+  const requestThumbnail = (page: number) => {
+    const urls = thumbnailUrls.value
+    const url = urls.get(page)
+    if (url) {
+      // 参照されたものを最新にする
+      urls.delete(page)
+      urls.set(page, url)
+      return
+    }
+    if (pending.includes(page)) return
+    pending.push(page)
+    if (!isProcessing) {
+      isProcessing = true
+      processNext()
+    }
+  }
+
+  const cancelThumbnail = (page: number) => {
+    pending = pending.filter((p) => p !== page)
+  }
+
+  watch([pdfDocument, fingerprint], reset)
+
+  onBeforeUnmount(reset)
+
+  return { thumbnailUrls, requestThumbnail, cancelThumbnail }
+}
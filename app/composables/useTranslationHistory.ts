@@ -0,0 +1,63 @@
+import type { TranslationHistoryEntry } from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+
+const DB_NAME = "pedaru-translation-history"
+const DB_VERSION = 1
+const ENTRY_STORE = "entries"
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const store = db.createObjectStore(ENTRY_STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      })
+      store.createIndex("createdAt", "createdAt")
+    }
+  },
+)
+
+export interface UseTranslationHistoryResult {
+  addTranslation: (entry: TranslationHistoryEntry) => Promise<void>
+  listTranslations: () => Promise<TranslationHistoryEntry[]>
+  clearTranslations: () => Promise<void>
+}
+
+export function useTranslationHistory(): UseTranslationHistoryResult {
+  const addTranslation = async (entry: TranslationHistoryEntry) => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction(ENTRY_STORE, "readwrite")
+    tx.objectStore(ENTRY_STORE).add(entry)
+    await transactionDone(tx)
+  }
+
+  const listTranslations = async (): Promise<TranslationHistoryEntry[]> => {
+    if (!isIndexedDbAvailable()) return []
+
+    const db = await connect()
+    const entries = await requestToPromise<TranslationHistoryEntry[]>(
+      db.transaction(ENTRY_STORE, "readonly").objectStore(ENTRY_STORE).getAll(),
+    )
+    return entries.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  const clearTranslations = async () => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction(ENTRY_STORE, "readwrite")
+    tx.objectStore(ENTRY_STORE).clear()
+    await transactionDone(tx)
+  }
+
+  return { addTranslation, listTranslations, clearTranslations }
+}
@@ -0,0 +1,147 @@
+import type { Ref } from "vue"
+import { readonly, ref } from "vue"
+import { parseTranslationPoint } from "#shared/utils/languages"
+import type {
+  TextSelection,
+  TranslationResponse,
+  VocabularyEntry,
+} from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import {
+  extractSentenceAtBoundary,
+  normalizeHeadword,
+} from "~/utils/offlineDictionary"
+
+const DB_NAME = "pedaru-vocabulary"
+const DB_VERSION = 1
+const ENTRY_STORE = "entries"
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const store = db.createObjectStore(ENTRY_STORE, { keyPath: "id" })
+      store.createIndex("documentFingerprint", "documentFingerprint")
+      store.createIndex("createdAt", "createdAt")
+    }
+  },
+)
+
+// 保存・削除のたびに増やし、一覧を表示しているコンポーネントに再読込させる
+const revision = ref(0)
+
+export interface VocabularySource {
+  documentFingerprint: string
+  documentName?: string
+}
+
+/**
+ * Builds a vocabulary entry from a word translation
+ * The meaning and sentence come from the localized points when present,
+ * otherwise from the translation and the sentence around the selection
+ */
+export function createVocabularyEntry(
+  selection: TextSelection,
+  response: TranslationResponse,
+  source: VocabularySource,
+  fallbackPage: number,
+): VocabularyEntry {
+  const word = selection.selectedText.trim()
+  const points = response.points.map(parseTranslationPoint)
+  const meaningPoint = points.find((p) => p.kind === "meaning")
+  const originalPoint = points.find((p) => p.kind === "original")
+
+  let sourceSentence = originalPoint?.body
+  if (!sourceSentence) {
+    const { before, after } = extractSentenceAtBoundary(
+      selection.contextBefore,
+      selection.contextAfter,
+    )
+    sourceSentence = `${before}***${word}***${after}`
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    documentFingerprint: source.documentFingerprint,
+    documentName: source.documentName,
+    word,
+    meaning: meaningPoint?.body || response.translation,
+    sourceSentence,
+    pageNumber: selection.pageNumber ?? fallbackPage,
+    createdAt: Date.now(),
+  }
+}
+
+export interface UseVocabularyResult {
+  /** Incremented whenever the notebook changes */
+  revision: Readonly<Ref<number>>
+  addEntry: (entry: VocabularyEntry) => Promise<VocabularyEntry>
+  removeEntry: (id: string) => Promise<void>
+  listEntries: (documentFingerprint?: string) => Promise<VocabularyEntry[]>
+}
+
+export function useVocabulary(): UseVocabularyResult {
+  const listEntries = async (
+    documentFingerprint?: string,
+  ): Promise<VocabularyEntry[]> => {
+    if (!isIndexedDbAvailable()) return []
+
+    const db = await connect()
+    const store = db
+      .transaction(ENTRY_STORE, "readonly")
+      .objectStore(ENTRY_STORE)
+    const entries = await requestToPromise<VocabularyEntry[]>(
+      documentFingerprint
+        ? store.index("documentFingerprint").getAll(documentFingerprint)
+        : store.getAll(),
+    )
+    return entries.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * Saves the entry; saving the same word from the same sentence of a
+   * document again replaces the earlier entry instead of duplicating it
+   */
+  const addEntry = async (entry: VocabularyEntry): Promise<VocabularyEntry> => {
+    if (!isIndexedDbAvailable()) return entry
+
+    const existing = (await listEntries(entry.documentFingerprint)).find(
+      (e) =>
+        normalizeHeadword(e.word) === normalizeHeadword(entry.word) &&
+        e.sourceSentence === entry.sourceSentence,
+    )
+    const saved = existing ? { ...entry, id: existing.id } : entry
+
+    const db = await connect()
+    const tx = db.transaction(ENTRY_STORE, "readwrite")
+    tx.objectStore(ENTRY_STORE).put(saved)
+    await transactionDone(tx)
+
+    revision.value++
+    return saved
+  }
+
+  const removeEntry = async (id: string) => {
+    if (!isIndexedDbAvailable()) return
+
+    const db = await connect()
+    const tx = db.transaction(ENTRY_STORE, "readwrite")
+    tx.objectStore(ENTRY_STORE).delete(id)
+    await transactionDone(tx)
+
+    revision.value++
+  }
+
+  return {
+    revision: readonly(revision),
+    addEntry,
+    removeEntry,
+    listEntries,
+  }
+}
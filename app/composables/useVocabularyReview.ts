@@ -0,0 +1,156 @@
+import type { Ref } from "vue"
+import { readonly, ref } from "vue"
+import { useVocabulary } from "~/composables/useVocabulary"
+import type {
+  ReviewGrade,
+  ReviewLogEntry,
+  ReviewSchedule,
+  VocabularyEntry,
+} from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import {
+  createInitialSchedule,
+  isDueToday,
+  scheduleReview,
+} from "~/utils/spacedRepetition"
+
+const DB_NAME = "pedaru-review"
+const DB_VERSION = 1
+const SCHEDULE_STORE = "schedules"
+const HISTORY_STORE = "history"
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const schedules = db.createObjectStore(SCHEDULE_STORE, {
+        keyPath: "entryId",
+      })
+      schedules.createIndex("due", "due")
+      const history = db.createObjectStore(HISTORY_STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      })
+      history.createIndex("entryId", "entryId")
+      history.createIndex("reviewedAt", "reviewedAt")
+    }
+  },
+)
+
+// 復習を記録するたびに増やし、ヘッダーの件数表示などを更新させる
+const revision = ref(0)
+
+export interface ReviewCard {
+  entry: VocabularyEntry
+  schedule: ReviewSchedule
+}
+
+export interface UseVocabularyReviewResult {
+  /** Incremented whenever a review is recorded */
+  revision: Readonly<Ref<number>>
+  /** Cards due today, most overdue first; unreviewed words come last */
+  getDueCards: (now?: number) => Promise<ReviewCard[]>
+  countDueToday: (now?: number) => Promise<number>
+  recordReview: (
+    card: ReviewCard,
+    grade: ReviewGrade,
+    now?: number,
+  ) => Promise<ReviewSchedule>
+  getHistory: (entryId?: string) => Promise<ReviewLogEntry[]>
+}
+
+export function useVocabularyReview(): UseVocabularyReviewResult {
+  const { listEntries } = useVocabulary()
+
+  const loadSchedules = async (): Promise<Map<string, ReviewSchedule>> => {
+    const db = await connect()
+    const schedules = await requestToPromise<ReviewSchedule[]>(
+      db
+        .transaction(SCHEDULE_STORE, "readonly")
+        .objectStore(SCHEDULE_STORE)
+        .getAll(),
+    )
+    return new Map(schedules.map((s) => [s.entryId, s]))
+  }
+
+  const getDueCards = async (now: number = Date.now()) => {
+    if (!isIndexedDbAvailable()) return []
+
+    const [entries, schedules] = await Promise.all([
+      listEntries(),
+      loadSchedules(),
+    ])
+    // 単語帳から削除された単語のスケジュールは単語一覧との結合で除外される
+    return entries
+      .map((entry) => ({
+        entry,
+        schedule:
+          schedules.get(entry.id) ??
+          createInitialSchedule(entry.id, entry.createdAt),
+      }))
+      .filter((card) => isDueToday(card.schedule, now))
+      .sort((a, b) => {
+        const aNew = !a.schedule.lastReviewed
+        const bNew = !b.schedule.lastReviewed
+        if (aNew !== bNew) return aNew ? 1 : -1
+        return a.schedule.due - b.schedule.due
+      })
+  }
+
+  const countDueToday = async (now: number = Date.now()) =>
+    (await getDueCards(now)).length
+
+  const recordReview = async (
+    card: ReviewCard,
+    grade: ReviewGrade,
+    now: number = Date.now(),
+  ): Promise<ReviewSchedule> => {
+    const next = scheduleReview(card.schedule, grade, now)
+    if (!isIndexedDbAvailable()) return next
+
+    const log: ReviewLogEntry = {
+      entryId: card.entry.id,
+      grade,
+      reviewedAt: now,
+      previousInterval: card.schedule.interval,
+      interval: next.interval,
+      easeFactor: next.easeFactor,
+    }
+
+    const db = await connect()
+    const tx = db.transaction([SCHEDULE_STORE, HISTORY_STORE], "readwrite")
+    tx.objectStore(SCHEDULE_STORE).put(next)
+    tx.objectStore(HISTORY_STORE).add(log)
+    await transactionDone(tx)
+
+    revision.value++
+    return next
+  }
+
+  const getHistory = async (entryId?: string): Promise<ReviewLogEntry[]> => {
+    if (!isIndexedDbAvailable()) return []
+
+    const db = await connect()
+    const store = db
+      .transaction(HISTORY_STORE, "readonly")
+      .objectStore(HISTORY_STORE)
+    const history = await requestToPromise<ReviewLogEntry[]>(
+      entryId ? store.index("entryId").getAll(entryId) : store.getAll(),
+    )
+    return history.sort((a, b) => b.reviewedAt - a.reviewedAt)
+  }
+
+  return {
+    revision: readonly(revision),
+    getDueCards,
+    countDueToday,
+    recordReview,
+    getHistory,
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * Centralized type definitions for Pedaru
+ * All shared types should be imported from this file
+ */
+
+export type { PdfInfo, ProcessedTextItem, TextItem, TocEntry } from "./pdf"
+
+// ============================================
+// View Mode
+// ============================================
+
+/**
+ * PDF display mode
+ */
+export type ViewMode = "single" | "two-column" | "continuous"
+
+/**
+ * How the zoom level is chosen; every mode except "custom" derives it
+ * from the size of the viewer and of the page
+ */
+export type ZoomMode = "custom" | "fit-width" | "fit-page" | "actual-size"
+
+/**
+ * How pages are paired in two-column mode
+ */
+export interface SpreadLayout {
+  /** Show page 1 alone and pair (2,3), (4,5)... like a printed book */
+  coverAlone: boolean
+  /** Put the first page of a pair on the right (vertical Japanese books) */
+  rightToLeft: boolean
+}
+
+// ============================================
+// Bookmark Types
+// ============================================
+
+/**
+ * Represents a bookmark in the PDF viewer
+ */
+export interface Bookmark {
+  page: number
+  label: string
+  createdAt: number
+}
+
+/**
+ * Bookmark state for database storage (alias for Bookmark)
+ */
+export type BookmarkState = Bookmark
+
+// ============================================
+// Highlight Types
+// ============================================
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink" | "purple"
+
+/**
+ * How a highlighted passage is drawn; underline and strike-out come
+ * from annotations imported from the PDF
+ */
+export type HighlightStyle = "highlight" | "underline" | "strikeout"
+
+/**
+ * Position in the text layer: the `data-text-index` of a span plus a
+ * character offset inside its text
+ */
+export interface TextAnchor {
+  textIndex: number
+  offset: number
+}
+
+/**
+ * Highlighted passage; `end` is exclusive
+ */
+export interface Highlight {
+  id: string
+  page: number
+  start: TextAnchor
+  end: TextAnchor
+  text: string
+  color: HighlightColor
+  /** Defaults to "highlight" */
+  style?: HighlightStyle
+  /** Author recorded in the PDF, for imported annotations */
+  author?: string
+  /** `page:id` of the PDF annotation this record was imported from */
+  importedFrom?: string
+  createdAt: number
+}
+
+// ============================================
+// Note Types
+// ============================================
+
+/**
+ * Rectangle on a page in fractions of the page size (0-1), so it does
+ * not depend on the zoom level
+ */
+export interface PageRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * What a note is attached to
+ */
+export type NoteAnchor =
+  | { type: "highlight"; highlightId: string }
+  | { type: "region"; region: PageRegion }
+
+/**
+ * Free-text margin note; `body` is Markdown
+ */
+export interface Note {
+  id: string
+  page: number
+  anchor: NoteAnchor
+  body: string
+  /** Author recorded in the PDF, for imported annotations */
+  author?: string
+  /** `page:id` of the PDF annotation this record was imported from */
+  importedFrom?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// ============================================
+// Search Types
+// ============================================
+
+/**
+ * How a search query is matched against page text
+ */
+export interface SearchOptions {
+  caseSensitive: boolean
+  /** Only match when not surrounded by letters or digits */
+  wholeWord: boolean
+  /** Treat the query as a JavaScript regular expression */
+  regex: boolean
+  /** Match "resume" against "résumé" */
+  ignoreDiacritics: boolean
+  /** Also match words a typo or two away from the query (not with regex) */
+  fuzzy: boolean
+  /** Match all query terms near each other, in any order (not with regex) */
+  proximity: boolean
+}
+
+/**
+ * Order of the search results list
+ */
+export type SearchSortOrder = "page" | "relevance"
+
+/**
+ * A query from the search history, with the options it was run with
+ */
+export interface SearchHistoryEntry {
+  query: string
+  options: SearchOptions
+  searchedAt: number
+}
+
+/**
+ * Search pinned to a document; re-run with its hit count whenever the
+ * document is opened
+ */
+export interface SavedSearch {
+  id: string
+  query: string
+  options: SearchOptions
+  createdAt: number
+}
+
+/**
+ * Represents a search result with context
+ */
+export interface SearchResult {
+  page: number
+  matchIndex: number
+  contextBefore: string
+  matchText: string
+  contextAfter: string
+  /** Relevance in (0, 1]; 1 for an exact match */
+  score: number
+}
+
+// ============================================
+// Tab Types
+// ============================================
+
+/**
+ * Tab state for database storage
+ */
+export interface TabState {
+  page: number
+  label: string
+}
+
+/**
+ * Represents an active tab in the main window
+ */
+export interface Tab {
+  id: number
+  page: number
+  label: string
+}
+
+// ============================================
+// Window Types
+// ============================================
+
+/**
+ * Window state for database storage
+ */
+export interface WindowState {
+  page: number
+  zoom: number
+  zoomMode: ZoomMode
+  viewMode: ViewMode
+}
+
+/**
+ * Represents an open standalone window with its current state
+ */
+export interface OpenWindow {
+  page: number
+  label: string
+  chapter?: string
+  zoom: number
+  zoomMode: ZoomMode
+  viewMode: ViewMode
+}
+
+// ============================================
+// History Types
+// ============================================
+
+/**
+ * Represents an entry in the page navigation history
+ */
+export interface HistoryEntry {
+  page: number
+  timestamp: string
+}
+
+// ============================================
+// Session Types
+// ============================================
+
+/**
+ * Complete session state for a PDF document
+ */
+export interface PdfSessionState {
+  filePath?: string
+  name?: string
+  lastOpened: number
+  page: number
+  zoom: number
+  zoomMode: ZoomMode
+  viewMode: ViewMode
+  spreadLayout: SpreadLayout
+  activeTabIndex: number | null
+  tabs: TabState[]
+  windows: WindowState[]
+  bookmarks: BookmarkState[]
+  highlights: Highlight[]
+  notes: Note[]
+  /** Recent queries in this document, newest first */
+  searchHistory: SearchHistoryEntry[]
+  savedSearches: SavedSearch[]
+  pageHistory?: HistoryEntry[]
+  historyIndex?: number
+}
+
+/**
+ * Entry returned when listing recently opened documents
+ */
+export interface RecentFile {
+  fingerprint: string
+  filePath?: string
+  name?: string
+  lastOpened: number
+}
+
+// ============================================
+// Bookshelf Types
+// ============================================
+
+/**
+ * PDF kept in the browser so it can be reopened and searched without
+ * picking the file again
+ */
+export interface BookshelfItem {
+  fingerprint: string
+  name: string
+  title?: string
+  size: number
+  pageCount: number
+  addedAt: number
+}
+
+// ============================================
+// Translation Types
+// ============================================
+
+export type {
+  ExplanationResponse,
+  TranslationResponse,
+} from "#shared/types/translation"
+
+/**
+ * Available Gemini models
+ */
+export type GeminiModel =
+  | "gemini-2.0-flash"
+  | "gemini-2.0-flash-lite"
+  | "gemini-2.5-flash"
+  | "gemini-2.5-flash-lite"
+  | "gemini-2.5-pro"
+  | "gemini-3-flash-preview"
+  | "gemini-3-pro-preview"
+
+/**
+ * Gemini model option for UI
+ */
+export interface GeminiModelOption {
+  id: GeminiModel
+  name: string
+  description: string
+}
+
+/**
+ * Translation settings
+ * `provider` selects an entry of the translation provider registry;
+ * the model fields are only used by the providers they belong to
+ */
+export interface GeminiSettings {
+  apiKey: string
+  provider: string
+  model: string
+  explanationModel: string
+  openAICompatibleModel: string
+  /** Language code of the source text, or "auto" to detect it */
+  sourceLanguage: string
+  /** Language code all translations and explanations are written in */
+  targetLanguage: string
+}
+
+/**
+ * Text selection data for translation
+ */
+export interface TextSelection {
+  selectedText: string
+  contextBefore: string
+  contextAfter: string
+  isWord: boolean
+  position: { x: number; y: number }
+  contextLoading?: boolean
+  pageNumber?: number // Page number where the selection was made
+}
+
+// ============================================
+// Vocabulary Types
+// ============================================
+
+/**
+ * Word saved to the vocabulary notebook from a translation
+ * `sourceSentence` keeps the `***word***` markup of the original point
+ */
+export interface VocabularyEntry {
+  id: string
+  documentFingerprint: string
+  documentName?: string
+  word: string
+  meaning: string
+  sourceSentence: string
+  pageNumber: number
+  createdAt: number
+}
+
+/**
+ * A translation shown in the popup, kept for exporting
+ */
+export interface TranslationHistoryEntry {
+  id?: number
+  text: string
+  translation: string
+  points: string[]
+  documentFingerprint?: string
+  documentName?: string
+  pageNumber?: number
+  createdAt: number
+}
+
+// ============================================
+// Review Types
+// ============================================
+
+/**
+ * Answer quality on the SM-2 scale (0 = blackout, 5 = perfect recall)
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+/**
+ * SM-2 scheduling state of a vocabulary entry
+ */
+export interface ReviewSchedule {
+  entryId: string
+  easeFactor: number
+  /** Days until the next review */
+  interval: number
+  repetitions: number
+  /** Timestamp from which the card is due */
+  due: number
+  lastReviewed?: number
+}
+
+/**
+ * One answered review, kept as history
+ */
+export interface ReviewLogEntry {
+  id?: number
+  entryId: string
+  grade: ReviewGrade
+  reviewedAt: number
+  previousInterval: number
+  interval: number
+  easeFactor: number
+}
@@ -0,0 +1,26 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api"
+
+export interface TocEntry {
+  title: string
+  page: number | null
+  children: TocEntry[]
+}
+
+export interface PdfInfo {
+  title: string | null
+  author: string | null
+  subject: string | null
+  toc: TocEntry[]
+}
+
+export type { TextItem }
+
+/**
+ * Text item with its viewport transform pre-computed for the text layer
+ */
+export interface ProcessedTextItem extends TextItem {
+  tx: number[]
+  fontSize: number
+  angle: number
+  targetWidth: number
+}
@@ -0,0 +1,306 @@
+/**
+ * Anki package (.apkg) writer
+ *
+ * An .apkg is a zip holding a `collection.anki2` SQLite database and a
+ * `media` manifest. The database is generated in the browser with
+ * sql.js using the schema 11 layout that every Anki version imports
+ */
+
+import { strToU8, zipSync } from "fflate"
+import type { SqlJsStatic } from "sql.js"
+
+export interface AnkiPackageOptions {
+  deckName: string
+  fieldNames: string[]
+  /** Cloze note type: the first field holds `{{c1::...}}` deletions */
+  cloze: boolean
+}
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null,
+  scm integer not null, ver integer not null, dty integer not null,
+  usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null,
+  tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null,
+  mod integer not null, usn integer not null, tags text not null,
+  flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null,
+  ord integer not null, mod integer not null, usn integer not null,
+  type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null,
+  odid integer not null, flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null,
+  ease integer not null, ivl integer not null, lastIvl integer not null,
+  factor integer not null, time integer not null, type integer not null
+);
+CREATE TABLE graves (
+  usn integer not null, oid integer not null, type integer not null
+);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`
+
+const MODEL_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.cloze {
+  font-weight: bold;
+  color: blue;
+}`
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    bury: true,
+    delays: [1, 10],
+    initialFactor: 2500,
+    ints: [1, 4, 7],
+    order: 1,
+    perDay: 20,
+    separate: true,
+  },
+  lapse: {
+    delays: [10],
+    leechAction: 0,
+    leechFails: 8,
+    minInt: 1,
+    mult: 0,
+  },
+  rev: {
+    bury: true,
+    ease4: 1.3,
+    fuzz: 0.05,
+    ivlFct: 1,
+    maxIvl: 36500,
+    minSpace: 1,
+    perDay: 100,
+  },
+}
+
+const GUID_CHARS =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~"
+
+let sqlJs: Promise<SqlJsStatic> | null = null
+
+// WASM は初回のエクスポート時にだけ読み込む
+const loadSqlJs = () => {
+  if (!sqlJs) {
+    sqlJs = Promise.all([
+      import("sql.js"),
+      import("sql.js/dist/sql-wasm.wasm?url"),
+    ]).then(([{ default: initSqlJs }, { default: wasmUrl }]) =>
+      initSqlJs({ locateFile: () => wasmUrl }),
+    )
+  }
+  return sqlJs
+}
+
+const createGuid = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(10))
+  return Array.from(bytes, (b) => GUID_CHARS[b % GUID_CHARS.length]).join("")
+}
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+
+/**
+ * Anki's duplicate check: first 8 hex digits of the SHA-1 of the
+ * stripped sort field, as an integer
+ */
+const fieldChecksum = async (field: string) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(stripHtml(field)),
+  )
+  return new DataView(digest).getUint32(0)
+}
+
+const createModel = (
+  modelId: number,
+  deckId: number,
+  { deckName, fieldNames, cloze }: AnkiPackageOptions,
+  now: number,
+) => {
+  const [first = "Front", ...rest] = fieldNames
+  const backFields = rest.map((name) => `{{${name}}}`).join("<br>")
+  const template = cloze
+    ? {
+        qfmt: `{{cloze:${first}}}`,
+        afmt: `{{cloze:${first}}}<br>${backFields}`,
+      }
+    : {
+        qfmt: `{{${first}}}`,
+        afmt: `{{FrontSide}}<hr id=answer>${backFields}`,
+      }
+
+  return {
+    id: modelId,
+    name: `${deckName} ${cloze ? "Cloze" : "Basic"}`,
+    type: cloze ? 1 : 0,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: cloze ? "Cloze" : "Card 1",
+        ord: 0,
+        ...template,
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+    flds: fieldNames.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css: MODEL_CSS,
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    latexsvg: false,
+    req: [[0, "any", [0]]],
+    tags: [],
+    vers: [],
+  }
+}
+
+const createDeck = (id: number, name: string, now: number) => ({
+  id,
+  name,
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  lrnToday: [0, 0],
+  revToday: [0, 0],
+  newToday: [0, 0],
+  timeToday: [0, 0],
+  collapsed: false,
+  desc: "",
+  dyn: 0,
+  conf: 1,
+  extendNew: 0,
+  extendRev: 0,
+})
+
+/**
+ * Builds an .apkg holding one note per row; row values are already
+ * formatted field HTML in the order of `fieldNames`
+ */
+export async function buildAnkiPackage(
+  rows: string[][],
+  options: AnkiPackageOptions,
+): Promise<Blob> {
+  const SQL = await loadSqlJs()
+  const db = new SQL.Database()
+
+  try {
+    const now = Date.now()
+    const nowSeconds = Math.floor(now / 1000)
+    const modelId = now
+    const deckId = now + 1
+
+    db.run(ANKI_SCHEMA)
+    db.run(
+      "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+      [
+        Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000),
+        now,
+        now,
+        JSON.stringify({
+          activeDecks: [1],
+          curDeck: 1,
+          newSpread: 0,
+          collapseTime: 1200,
+          timeLim: 0,
+          estTimes: true,
+          dueCounts: true,
+          curModel: modelId,
+          nextPos: rows.length + 1,
+          sortType: "noteFld",
+          sortBackwards: false,
+          addToCur: true,
+        }),
+        JSON.stringify({
+          [modelId]: createModel(modelId, deckId, options, now),
+        }),
+        JSON.stringify({
+          1: createDeck(1, "Default", now),
+          [deckId]: createDeck(deckId, options.deckName, now),
+        }),
+        JSON.stringify({ 1: DEFAULT_DECK_CONFIG }),
+      ],
+    )
+
+    const insertNote = db.prepare(
+      "INSERT INTO notes VALUES (?, ?, ?, ?, -1, '', ?, ?, ?, 0, '')",
+    )
+    const insertCard = db.prepare(
+      "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')",
+    )
+    // ノートとカードの ID はミリ秒のタイムスタンプで、重複しないよう連番にする
+    for (const [index, fields] of rows.entries()) {
+      const noteId = now + 2 + index * 2
+      const sortField = stripHtml(fields[0] ?? "")
+      insertNote.run([
+        noteId,
+        createGuid(),
+        modelId,
+        nowSeconds,
+        fields.join("\x1f"),
+        sortField,
+        await fieldChecksum(fields[0] ?? ""),
+      ])
+      insertCard.run([noteId + 1, noteId, deckId, nowSeconds, index + 1])
+    }
+    insertNote.free()
+    insertCard.free()
+
+    const archive = zipSync({
+      "collection.anki2": db.export(),
+      media: strToU8("{}"),
+    })
+    return new Blob([archive], { type: "application/octet-stream" })
+  } finally {
+    db.close()
+  }
+}
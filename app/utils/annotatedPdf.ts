@@ -0,0 +1,176 @@
+/**
+ * Writes app highlights and notes into a copy of the PDF as standard
+ * annotations, so they show up in other viewers
+ *
+ * - Highlights become `/Highlight` (or `/Underline`, `/StrikeOut`)
+ *   annotations with QuadPoints; notes attached to a highlight are stored
+ *   in its `/Contents`
+ * - Region notes become `/Text` (sticky note) annotations
+ * - Records imported from the PDF are skipped, since the original
+ *   annotations are still in the file
+ *
+ * Runs entirely in the browser with pdf-lib
+ */
+
+import {
+  type PDFDict,
+  PDFDocument,
+  PDFHexString,
+  type PDFPage,
+  PDFString,
+} from "pdf-lib"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { Highlight, HighlightStyle, Note, TextItem } from "~/types"
+import { HIGHLIGHT_COLORS } from "~/utils/highlights"
+import { getPageTextItems } from "~/utils/pdfjs"
+import { getBounds, getTextItemQuad, type Point } from "~/utils/textGeometry"
+
+const ANNOTATION_AUTHOR = "Pedaru"
+/** Print flag, so annotations are also printed */
+const PRINT_FLAG = 4
+/** Size of the sticky note icon in PDF units */
+const TEXT_ICON_SIZE = 20
+const NOTE_COLOR = [99 / 255, 102 / 255, 241 / 255]
+
+const STYLE_SUBTYPES: Record<HighlightStyle, string> = {
+  highlight: "Highlight",
+  underline: "Underline",
+  strikeout: "StrikeOut",
+}
+
+export interface AnnotatedPdfInput {
+  /** Original file bytes */
+  data: Uint8Array
+  /** The same document opened with pdf.js, used for text positions */
+  pdfDocument: PDFDocumentProxy
+  highlights: Highlight[]
+  notes: Note[]
+}
+
+/**
+ * Formats a timestamp as a PDF date string (D:YYYYMMDDHHmmSSZ)
+ */
+function toPdfDate(timestamp: number): PDFString {
+  const iso = new Date(timestamp).toISOString()
+  const digits = iso.slice(0, 19).replace(/[-T:]/g, "")
+  return PDFString.of(`D:${digits}Z`)
+}
+
+function getHighlightQuads(highlight: Highlight, items: TextItem[]): Point[][] {
+  const quads: Point[][] = []
+  for (
+    let index = highlight.start.textIndex;
+    index <= highlight.end.textIndex;
+    index++
+  ) {
+    const item = items[index]
+    if (!item) continue
+    const from =
+      index === highlight.start.textIndex ? highlight.start.offset : 0
+    const to =
+      index === highlight.end.textIndex ? highlight.end.offset : item.str.length
+    if (to > from) quads.push(getTextItemQuad(item, from, to))
+  }
+  return quads
+}
+
+function addAnnotation(pdf: PDFDocument, page: PDFPage, dict: PDFDict) {
+  page.node.addAnnot(pdf.context.register(dict))
+}
+
+/**
+ * Builds a new PDF containing the given highlights and notes
+ * @returns Bytes of the annotated copy; the input bytes are not modified
+ */
+export async function buildAnnotatedPdf(
+  input: AnnotatedPdfInput,
+): Promise<Uint8Array> {
+  const highlights = input.highlights.filter((h) => !h.importedFrom)
+  const notes = input.notes.filter((n) => !n.importedFrom)
+  const { data, pdfDocument } = input
+  const pdf = await PDFDocument.load(data, { updateMetadata: false })
+  const pages = pdf.getPages()
+
+  const highlightNotes = new Map<string, Note[]>()
+  for (const note of notes) {
+    if (note.anchor.type !== "highlight") continue
+    const list = highlightNotes.get(note.anchor.highlightId) ?? []
+    list.push(note)
+    highlightNotes.set(note.anchor.highlightId, list)
+  }
+
+  const pageNumbers = new Set([
+    ...highlights.map((h) => h.page),
+    ...notes.map((n) => n.page),
+  ])
+
+  for (const pageNumber of [...pageNumbers].sort((a, b) => a - b)) {
+    const page = pages[pageNumber - 1]
+    if (!page) continue
+    const pdfjsPage = await pdfDocument.getPage(pageNumber)
+
+    const pageHighlights = highlights.filter((h) => h.page === pageNumber)
+    if (pageHighlights.length > 0) {
+      const items = await getPageTextItems(pdfjsPage)
+      for (const highlight of pageHighlights) {
+        const quads = getHighlightQuads(highlight, items)
+        if (quads.length === 0) continue
+
+        const comments = (highlightNotes.get(highlight.id) ?? [])
+          .map((n) => n.body.trim())
+          .filter(Boolean)
+        const [r, g, b] = HIGHLIGHT_COLORS[highlight.color].rgb
+        addAnnotation(
+          pdf,
+          page,
+          pdf.context.obj({
+            Type: "Annot",
+            Subtype: STYLE_SUBTYPES[highlight.style ?? "highlight"],
+            Rect: getBounds(quads.flat()),
+            QuadPoints: quads.flat(2),
+            C: [r / 255, g / 255, b / 255],
+            F: PRINT_FLAG,
+            NM: PDFHexString.fromText(highlight.id),
+            T: PDFHexString.fromText(ANNOTATION_AUTHOR),
+            Contents: PDFHexString.fromText(
+              comments.length > 0 ? comments.join("\n\n") : highlight.text,
+            ),
+            CreationDate: toPdfDate(highlight.createdAt),
+            M: toPdfDate(highlight.createdAt),
+          }),
+        )
+      }
+    }
+
+    // 領域メモは領域の右上にアイコンを置く (ページ回転は viewport で吸収する)
+    const viewport = pdfjsPage.getViewport({ scale: 1 })
+    for (const note of notes) {
+      if (note.page !== pageNumber || note.anchor.type !== "region") continue
+      const { region } = note.anchor
+      const [x = 0, y = 0] = viewport.convertToPdfPoint(
+        (region.x + region.width) * viewport.width,
+        region.y * viewport.height,
+      )
+      addAnnotation(
+        pdf,
+        page,
+        pdf.context.obj({
+          Type: "Annot",
+          Subtype: "Text",
+          Rect: [x, y - TEXT_ICON_SIZE, x + TEXT_ICON_SIZE, y],
+          Name: "Comment",
+          Open: false,
+          C: NOTE_COLOR,
+          F: PRINT_FLAG,
+          NM: PDFHexString.fromText(note.id),
+          T: PDFHexString.fromText(ANNOTATION_AUTHOR),
+          Contents: PDFHexString.fromText(note.body),
+          CreationDate: toPdfDate(note.createdAt),
+          M: toPdfDate(note.updatedAt),
+        }),
+      )
+    }
+  }
+
+  return pdf.save()
+}
@@ -0,0 +1,13 @@
+/**
+ * Computes a stable fingerprint for a PDF document from its bytes
+ * The same file yields the same fingerprint regardless of where it is
+ * stored, so renamed or moved files keep their session data
+ */
+export async function computeDocumentFingerprint(
+  data: ArrayBuffer | Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+}
@@ -0,0 +1,21 @@
+/**
+ * Saves a generated file through a temporary object URL
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // クリック直後に破棄するとダウンロードが始まらないブラウザがある
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Replaces characters that are not allowed in file names
+ */
+export function toSafeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "untitled"
+}
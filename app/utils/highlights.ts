@@ -0,0 +1,194 @@
+/**
+ * Text layer anchoring for highlights
+ *
+ * Highlights are stored as `data-text-index` span positions plus
+ * character offsets, which do not depend on the zoom level; the DOM
+ * rectangles are recomputed from the rendered spans whenever needed
+ */
+
+import type { HighlightColor, TextAnchor } from "~/types"
+
+/**
+ * `fill` is used on screen, `rgb` (0-255) when writing PDF annotations
+ */
+export const HIGHLIGHT_COLORS: Record<
+  HighlightColor,
+  { label: string; fill: string; rgb: [number, number, number] }
+> = {
+  yellow: {
+    label: "Yellow",
+    fill: "rgb(250 204 21 / 40%)",
+    rgb: [250, 204, 21],
+  },
+  green: { label: "Green", fill: "rgb(74 222 128 / 40%)", rgb: [74, 222, 128] },
+  blue: { label: "Blue", fill: "rgb(96 165 250 / 40%)", rgb: [96, 165, 250] },
+  pink: { label: "Pink", fill: "rgb(244 114 182 / 40%)", rgb: [244, 114, 182] },
+  purple: {
+    label: "Purple",
+    fill: "rgb(192 132 252 / 40%)",
+    rgb: [192, 132, 252],
+  },
+}
+
+export const DEFAULT_HIGHLIGHT_COLOR: HighlightColor = "yellow"
+
+export interface TextLayerSelection {
+  page: number
+  start: TextAnchor
+  end: TextAnchor
+  text: string
+}
+
+export interface HighlightRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+const getTextIndex = (span: Element) =>
+  Number.parseInt(span.getAttribute("data-text-index") ?? "-1", 10)
+
+/**
+ * Character offset of a DOM position inside a span; spans may contain
+ * nested search marks, so the text before the position is measured
+ */
+const offsetWithinSpan = (span: Element, node: Node, offset: number) => {
+  const range = document.createRange()
+  range.setStart(span, 0)
+  range.setEnd(node, offset)
+  return range.toString().length
+}
+
+/**
+ * Reads the current window selection as text layer anchors
+ * Returns null when the selection is not inside a single page's text layer
+ */
+export function getTextLayerSelection(): TextLayerSelection | null {
+  const windowSelection = window.getSelection()
+  if (!windowSelection || windowSelection.isCollapsed) return null
+
+  const range = windowSelection.getRangeAt(0)
+  const startElement =
+    range.startContainer instanceof Element
+      ? range.startContainer
+      : range.startContainer.parentElement
+  const textLayer = startElement?.closest(".custom-text-layer")
+  if (!textLayer) return null
+
+  const page = Number.parseInt(
+    textLayer.getAttribute("data-page-number") ?? "-1",
+    10,
+  )
+  const spans = Array.from(
+    textLayer.querySelectorAll("span[data-text-index]"),
+  ).filter((span) => range.intersectsNode(span))
+  const first = spans[0]
+  const last = spans[spans.length - 1]
+  if (page < 1 || !first || !last) return null
+
+  // 選択範囲の端がスパンの外にある場合はスパン全体を含める
+  const start: TextAnchor = {
+    textIndex: getTextIndex(first),
+    offset: first.contains(range.startContainer)
+      ? offsetWithinSpan(first, range.startContainer, range.startOffset)
+      : 0,
+  }
+  const end: TextAnchor = {
+    textIndex: getTextIndex(last),
+    offset: last.contains(range.endContainer)
+      ? offsetWithinSpan(last, range.endContainer, range.endOffset)
+      : (last.textContent ?? "").length,
+  }
+
+  const text = windowSelection.toString().trim()
+  if (!text) return null
+  return { page, start, end, text }
+}
+
+/**
+ * Finds the text node and offset for a character offset in a span
+ */
+const resolveTextPosition = (
+  span: Element,
+  offset: number,
+): { node: Node; offset: number } => {
+  const walker = document.createTreeWalker(span, NodeFilter.SHOW_TEXT)
+  let remaining = offset
+  let node = walker.nextNode()
+  let lastNode: Node | null = null
+  while (node) {
+    const length = node.textContent?.length ?? 0
+    if (remaining <= length) return { node, offset: remaining }
+    remaining -= length
+    lastNode = node
+    node = walker.nextNode()
+  }
+  return lastNode
+    ? { node: lastNode, offset: lastNode.textContent?.length ?? 0 }
+    : { node: span, offset: 0 }
+}
+
+/**
+ * Computes the rectangles covering an anchored range, relative to the
+ * text layer element
+ */
+export function getAnchorRects(
+  textLayer: HTMLElement,
+  start: TextAnchor,
+  end: TextAnchor,
+): HighlightRect[] {
+  const layerRect = textLayer.getBoundingClientRect()
+  const rects: HighlightRect[] = []
+
+  for (let index = start.textIndex; index <= end.textIndex; index++) {
+    const span = textLayer.querySelector(`span[data-text-index="${index}"]`)
+    if (!span) continue
+
+    const length = (span.textContent ?? "").length
+    const from = index === start.textIndex ? start.offset : 0
+    const to = index === end.textIndex ? end.offset : length
+    if (to <= from) continue
+
+    const range = document.createRange()
+    const rangeStart = resolveTextPosition(span, from)
+    const rangeEnd = resolveTextPosition(span, to)
+    range.setStart(rangeStart.node, rangeStart.offset)
+    range.setEnd(rangeEnd.node, rangeEnd.offset)
+
+    for (const rect of range.getClientRects()) {
+      if (rect.width === 0 || rect.height === 0) continue
+      rects.push({
+        left: rect.left - layerRect.left,
+        top: rect.top - layerRect.top,
+        width: rect.width,
+        height: rect.height,
+      })
+    }
+  }
+
+  return rects
+}
+
+/**
+ * Returns the id of the highlight drawn under a viewport point
+ * Highlight rectangles ignore pointer events so text stays selectable,
+ * so they are hit-tested by geometry instead
+ */
+export function findHighlightIdAt(x: number, y: number): string | null {
+  const rects = document.querySelectorAll<HTMLElement>(
+    "#pdf-viewer-container [data-highlight-id]",
+  )
+  for (const element of rects) {
+    const rect = element.getBoundingClientRect()
+    if (
+      x >= rect.left &&
+      x <= rect.right &&
+      y >= rect.top &&
+      y <= rect.bottom
+    ) {
+      return element.getAttribute("data-highlight-id")
+    }
+  }
+  return null
+}
@@ -0,0 +1,104 @@
+/**
+ * Thin promise wrappers around the IndexedDB API
+ * Each feature owns its own database and upgrade logic
+ */
+
+export type UpgradeHandler = (
+  db: IDBDatabase,
+  oldVersion: number,
+  transaction: IDBTransaction,
+) => void
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined"
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Opens (and upgrades if needed) a database
+ * The upgrade handler receives the previous version so it can apply
+ * each schema step incrementally. `onClose` is called when the connection
+ * is closed because another tab upgraded the database
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: UpgradeHandler,
+  onClose?: () => void,
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB is not available in this environment"))
+      return
+    }
+
+    let isBlocked = false
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = (event) => {
+      if (request.transaction) {
+        upgrade(request.result, event.oldVersion, request.transaction)
+      }
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // ブロックで既に失敗扱いにした後に開けた接続は使われないので閉じる
+      if (isBlocked) {
+        db.close()
+        return
+      }
+      // 別タブでバージョンが上がった場合は接続を閉じ、次回の呼び出しで開き直す
+      db.onversionchange = () => {
+        db.close()
+        onClose?.()
+      }
+      db.onclose = () => onClose?.()
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => {
+      isBlocked = true
+      reject(new Error(`Opening database "${name}" was blocked`))
+    }
+  })
+}
+
+/**
+ * Returns a lazily opened, memoized connection for a database
+ * A failed open or a closed connection is not cached so the next call
+ * opens the database again
+ */
+export function createDatabaseConnector(
+  name: string,
+  version: number,
+  upgrade: UpgradeHandler,
+): () => Promise<IDBDatabase> {
+  let pending: Promise<IDBDatabase> | null = null
+
+  return () => {
+    if (!pending) {
+      const opening = openDatabase(name, version, upgrade, () => {
+        // 閉じた接続を返し続けないよう、次回の呼び出しで開き直す
+        if (pending === opening) pending = null
+      }).catch((error) => {
+        if (pending === opening) pending = null
+        throw error
+      })
+      pending = opening
+    }
+    return pending
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Minimal Markdown renderer for translation output and notes
+ * Only emphasis, inline code, links, headings and lists are supported;
+ * everything else is escaped, so the result is safe to bind with v-html
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c] ?? c)
+}
+
+export function renderInlineMarkdown(text: string): string {
+  return (
+    escapeHtml(text)
+      .replace(/`([^`]+)`/g, "<code>$1</code>")
+      // ***text*** はハイライト表示 (翻訳ポイントで対象の単語を示す)
+      .replace(/\*\*\*(.+?)\*\*\*/g, "<strong><mark>$1</mark></strong>")
+      .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+      .replace(/\*(.+?)\*/g, "<em>$1</em>")
+  )
+}
+
+const renderLinks = (html: string) =>
+  // 外部リンクは http(s) のみ許可する (javascript: などを防ぐ)
+  html.replace(
+    /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g,
+    '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>',
+  )
+
+/**
+ * Renders block-level Markdown: `#` headings, `-`/`*`/`1.` lists and
+ * paragraphs separated by blank lines
+ */
+export function renderMarkdown(text: string): string {
+  const blocks: string[] = []
+  let paragraph: string[] = []
+  // flushList がクロージャ内で null に戻すため、型の絞り込みを避けて宣言する
+  let list = null as { tag: "ul" | "ol"; items: string[] } | null
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.join("<br>")}</p>`)
+      paragraph = []
+    }
+  }
+  const flushList = () => {
+    if (list) {
+      const items = list.items.map((item) => `<li>${item}</li>`).join("")
+      blocks.push(`<${list.tag}>${items}</${list.tag}>`)
+      list = null
+    }
+  }
+
+  for (const line of text.split("\n")) {
+    const inline = (value: string) => renderLinks(renderInlineMarkdown(value))
+    const heading = line.match(/^(#{1,3})\s+(.*)$/)
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/)
+    const numbered = line.match(/^\s*\d+\.\s+(.*)$/)
+
+    if (heading?.[1] && heading[2] !== undefined) {
+      flushParagraph()
+      flushList()
+      const level = heading[1].length + 2
+      blocks.push(`<h${level}>${inline(heading[2])}</h${level}>`)
+    } else if (bullet?.[1] !== undefined || numbered?.[1] !== undefined) {
+      flushParagraph()
+      const tag = bullet ? "ul" : "ol"
+      if (list?.tag !== tag) {
+        flushList()
+        list = { tag, items: [] }
+      }
+      list?.items.push(inline(bullet?.[1] ?? numbered?.[1] ?? ""))
+    } else if (line.trim() === "") {
+      flushParagraph()
+      flushList()
+    } else {
+      flushList()
+      paragraph.push(inline(line))
+    }
+  }
+  flushParagraph()
+  flushList()
+  return blocks.join("")
+}
@@ -0,0 +1,302 @@
+/**
+ * Markdown export of a document's reading notes (Obsidian friendly)
+ *
+ * The output is built from user-editable templates:
+ * - `{{name}}` is replaced with a value
+ * - `{{#name}}...{{/name}}` is kept only when the value is not empty
+ */
+
+import type {
+  Bookmark,
+  Highlight,
+  Note,
+  PdfInfo,
+  TranslationHistoryEntry,
+} from "~/types"
+import { formatDateTime } from "~/utils/formatUtils"
+import { getChapterForPage } from "~/utils/pdfUtils"
+
+export interface MarkdownExportSettings {
+  /** Whole file; see MARKDOWN_DOCUMENT_VARIABLES */
+  documentTemplate: string
+  /** One highlight; see MARKDOWN_HIGHLIGHT_VARIABLES */
+  highlightTemplate: string
+  /** One note attached to a page region; see MARKDOWN_NOTE_VARIABLES */
+  noteTemplate: string
+}
+
+export const MARKDOWN_DOCUMENT_VARIABLES = [
+  "frontmatter",
+  "title",
+  "author",
+  "subject",
+  "file",
+  "date",
+  "sections",
+  "bookmarks",
+  "translations",
+]
+
+export const MARKDOWN_HIGHLIGHT_VARIABLES = [
+  "text",
+  "comment",
+  "page",
+  "link",
+  "color",
+  "author",
+  "date",
+]
+
+export const MARKDOWN_NOTE_VARIABLES = [
+  "body",
+  "page",
+  "link",
+  "author",
+  "date",
+]
+
+export const DEFAULT_MARKDOWN_EXPORT_SETTINGS: MarkdownExportSettings = {
+  documentTemplate: `{{frontmatter}}
+
+# {{title}}
+
+{{sections}}
+
+{{#bookmarks}}
+## Bookmarks
+
+{{bookmarks}}
+{{/bookmarks}}
+
+{{#translations}}
+## Translations
+
+{{translations}}
+{{/translations}}
+`,
+  highlightTemplate: `> {{text}}
+> — {{link}}
+{{#comment}}
+
+{{comment}}
+{{/comment}}
+`,
+  noteTemplate: `{{body}}
+— {{link}}
+`,
+}
+
+export interface MarkdownExportInput {
+  pdfInfo: PdfInfo | null
+  /** PDF file name, used for page links */
+  fileName: string
+  highlights: Highlight[]
+  notes: Note[]
+  bookmarks: Bookmark[]
+  translations: TranslationHistoryEntry[]
+}
+
+const MARKDOWN_EXPORT_SETTINGS_KEY = "pedaru_markdown_export_settings"
+
+export function getMarkdownExportSettings(): MarkdownExportSettings {
+  if (typeof window === "undefined") {
+    return DEFAULT_MARKDOWN_EXPORT_SETTINGS
+  }
+
+  try {
+    const stored = localStorage.getItem(MARKDOWN_EXPORT_SETTINGS_KEY)
+    if (stored) {
+      return { ...DEFAULT_MARKDOWN_EXPORT_SETTINGS, ...JSON.parse(stored) }
+    }
+  } catch (error) {
+    console.error("Failed to get markdown export settings:", error)
+  }
+
+  return DEFAULT_MARKDOWN_EXPORT_SETTINGS
+}
+
+export function saveMarkdownExportSettings(
+  settings: MarkdownExportSettings,
+): void {
+  if (typeof window === "undefined") {
+    return
+  }
+
+  try {
+    localStorage.setItem(MARKDOWN_EXPORT_SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error("Failed to save markdown export settings:", error)
+  }
+}
+
+// ============================================
+// Template
+// ============================================
+
+/**
+ * Fills a template; unknown variables become empty strings
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>,
+): string {
+  const withSections = template.replace(
+    /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g,
+    (_, name: string, inner: string) => (values[name]?.trim() ? inner : ""),
+  )
+  return withSections.replace(
+    /\{\{(\w+)\}\}/g,
+    (_, name: string) => values[name] ?? "",
+  )
+}
+
+// ============================================
+// Document
+// ============================================
+
+/**
+ * YAML double-quoted scalars share JSON string escaping
+ */
+const toYamlValue = (value: string) => JSON.stringify(value)
+
+function buildFrontMatter(input: MarkdownExportInput, title: string): string {
+  const { pdfInfo, fileName } = input
+  const lines = [
+    "---",
+    `title: ${toYamlValue(title)}`,
+    pdfInfo?.author ? `author: ${toYamlValue(pdfInfo.author)}` : null,
+    pdfInfo?.subject ? `subject: ${toYamlValue(pdfInfo.subject)}` : null,
+    `source: ${toYamlValue(`[[${fileName}]]`)}`,
+    `exported: ${new Date().toISOString().slice(0, 10)}`,
+    "---",
+  ]
+  return lines.filter((line) => line !== null).join("\n")
+}
+
+/**
+ * Obsidian link that opens the PDF at a page
+ */
+export function formatPageLink(fileName: string, page: number): string {
+  return `[[${fileName}#page=${page}|p. ${page}]]`
+}
+
+/**
+ * Quotes every line so multi-line text stays inside a blockquote
+ */
+const toQuoteBody = (text: string) => text.trim().replace(/\n/g, "\n> ")
+
+interface SectionItem {
+  page: number
+  createdAt: number
+  markdown: string
+}
+
+function buildSections(
+  input: MarkdownExportInput,
+  settings: MarkdownExportSettings,
+): string {
+  const { pdfInfo, fileName, highlights, notes } = input
+
+  const items: SectionItem[] = []
+  for (const highlight of highlights) {
+    const comment = notes
+      .filter(
+        (n) =>
+          n.anchor.type === "highlight" &&
+          n.anchor.highlightId === highlight.id,
+      )
+      .map((n) => n.body.trim())
+      .filter(Boolean)
+      .join("\n\n")
+    items.push({
+      page: highlight.page,
+      createdAt: highlight.createdAt,
+      markdown: renderTemplate(settings.highlightTemplate, {
+        text: toQuoteBody(highlight.text),
+        comment,
+        page: String(highlight.page),
+        link: formatPageLink(fileName, highlight.page),
+        color: highlight.color,
+        author: highlight.author ?? "",
+        date: formatDateTime(highlight.createdAt),
+      }),
+    })
+  }
+  for (const note of notes) {
+    if (note.anchor.type !== "region" || !note.body.trim()) continue
+    items.push({
+      page: note.page,
+      createdAt: note.createdAt,
+      markdown: renderTemplate(settings.noteTemplate, {
+        body: note.body.trim(),
+        page: String(note.page),
+        link: formatPageLink(fileName, note.page),
+        author: note.author ?? "",
+        date: formatDateTime(note.updatedAt),
+      }),
+    })
+  }
+  items.sort((a, b) => a.page - b.page || a.createdAt - b.createdAt)
+
+  // 目次の章ごとにまとめる (目次が無い文書は見出しなし)
+  const blocks: string[] = []
+  let currentChapter: string | undefined
+  for (const item of items) {
+    const chapter = getChapterForPage(pdfInfo, item.page)
+    if (chapter && chapter !== currentChapter) {
+      blocks.push(`## ${chapter}\n`)
+    }
+    currentChapter = chapter
+    blocks.push(item.markdown.trimEnd())
+  }
+  return blocks.join("\n\n")
+}
+
+function buildBookmarks(input: MarkdownExportInput): string {
+  return [...input.bookmarks]
+    .sort((a, b) => a.page - b.page)
+    .map((b) => {
+      const label = b.label || `Page ${b.page}`
+      return `- ${label} (${formatPageLink(input.fileName, b.page)})`
+    })
+    .join("\n")
+}
+
+function buildTranslations(input: MarkdownExportInput): string {
+  return [...input.translations]
+    .sort(
+      (a, b) =>
+        (a.pageNumber ?? 0) - (b.pageNumber ?? 0) || a.createdAt - b.createdAt,
+    )
+    .map((t) => {
+      const link = t.pageNumber
+        ? ` (${formatPageLink(input.fileName, t.pageNumber)})`
+        : ""
+      return `- **${t.text.trim()}**${link}\n  ${t.translation.trim().replace(/\n/g, "\n  ")}`
+    })
+    .join("\n")
+}
+
+/**
+ * Builds the Markdown file for one document
+ */
+export function buildMarkdownExport(
+  input: MarkdownExportInput,
+  settings: MarkdownExportSettings,
+): string {
+  const title =
+    input.pdfInfo?.title || input.fileName.replace(/\.pdf$/i, "") || "Untitled"
+  const markdown = renderTemplate(settings.documentTemplate, {
+    frontmatter: buildFrontMatter(input, title),
+    title,
+    author: input.pdfInfo?.author ?? "",
+    subject: input.pdfInfo?.subject ?? "",
+    file: input.fileName,
+    date: formatDateTime(Date.now()),
+    sections: buildSections(input, settings),
+    bookmarks: buildBookmarks(input),
+    translations: buildTranslations(input),
+  })
+  // テンプレートの空欄で生じた余分な空行をまとめる
+  return `${markdown.replace(/\n{3,}/g, "\n\n").trim()}\n`
+}
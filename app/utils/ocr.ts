@@ -0,0 +1,144 @@
+/**
+ * OCR of scanned pages with tesseract.js (WASM engine in a Web Worker)
+ *
+ * The worker script, the engine and the language data are served by the
+ * app itself (see `nitro.publicAssets` in nuxt.config), so nothing is
+ * fetched from a CDN. Recognized lines become synthetic pdf.js text
+ * items, so the text layer, selection and search treat them like
+ * embedded text
+ */
+
+import type { PDFPageProxy } from "pdfjs-dist"
+import type { Worker as TesseractWorker } from "tesseract.js"
+import type { TextItem } from "~/types"
+
+const OCR_LANGUAGES = ["eng", "jpn"]
+const OCR_ASSET_BASE = "/tesseract"
+/** Render scale for recognition (about 216 dpi) */
+const OCR_SCALE = 3
+/** Lines recognized with less confidence (0-100) are dropped as noise */
+const MIN_LINE_CONFIDENCE = 30
+
+// 日本語の文字の間に入る空白 (tesseract は文字ごとに区切る)
+const CJK_SPACING =
+  /(?<=[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー、。])\s+(?=[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー、。])/gu
+
+export interface OcrProgress {
+  status: string
+  /** 0-1 */
+  progress: number
+}
+
+let worker: Promise<TesseractWorker> | null = null
+let queue: Promise<unknown> = Promise.resolve()
+let progressListener: ((progress: OcrProgress) => void) | null = null
+
+function getWorker(): Promise<TesseractWorker> {
+  if (!worker) {
+    const assetUrl = (path: string) =>
+      new URL(`${OCR_ASSET_BASE}/${path}`, window.location.href).href
+    worker = import("tesseract.js")
+      .then(({ createWorker, OEM }) =>
+        createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+          workerPath: assetUrl("worker.min.js"),
+          corePath: assetUrl("core"),
+          langPath: assetUrl("lang"),
+          gzip: true,
+          logger: ({ status, progress }) =>
+            progressListener?.({ status, progress }),
+        }),
+      )
+      .catch((error) => {
+        // 読み込みに失敗した場合は次回やり直す
+        worker = null
+        throw error
+      })
+  }
+  return worker
+}
+
+/**
+ * Converts a box in canvas pixels to a text item in PDF space
+ * The box's bottom edge is the baseline and its height the font size,
+ * which is what the text layer needs to place and stretch the span
+ */
+function toTextItem(
+  str: string,
+  box: { x0: number; y0: number; x1: number; y1: number },
+  viewport: ReturnType<PDFPageProxy["getViewport"]>,
+): TextItem {
+  const [x, y] = viewport.convertToPdfPoint(box.x0, box.y1)
+  const [xRight, yRight] = viewport.convertToPdfPoint(box.x1, box.y1)
+  const [xTop, yTop] = viewport.convertToPdfPoint(box.x0, box.y0)
+  const width = Math.hypot(xRight - x, yRight - y)
+  const height = Math.hypot(xTop - x, yTop - y)
+  // 回転したページでは行の向きも回転する
+  const cos = width > 0 ? (xRight - x) / width : 1
+  const sin = width > 0 ? (yRight - y) / width : 0
+  return {
+    str,
+    dir: "ltr",
+    width,
+    height,
+    transform: [height * cos, height * sin, -height * sin, height * cos, x, y],
+    fontName: "",
+    hasEOL: true,
+  }
+}
+
+async function recognize(page: PDFPageProxy): Promise<TextItem[]> {
+  const ocr = await getWorker()
+  const viewport = page.getViewport({ scale: OCR_SCALE })
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  await page.render({ canvas, viewport }).promise
+
+  const { data } = await ocr.recognize(canvas, {}, { blocks: true })
+  const items: TextItem[] = []
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const str = line.text.trim().replace(CJK_SPACING, "")
+        if (!str || line.confidence < MIN_LINE_CONFIDENCE) continue
+        items.push(toTextItem(str, line.bbox, viewport))
+      }
+    }
+  }
+  // キャンバスのメモリをすぐに解放する
+  canvas.width = 0
+  canvas.height = 0
+  return items
+}
+
+/**
+ * Recognizes the text of a page, one line per text item
+ * Pages are recognized one at a time in a single shared worker
+ */
+export function recognizePageText(
+  page: PDFPageProxy,
+  onProgress?: (progress: OcrProgress) => void,
+): Promise<TextItem[]> {
+  const run = async () => {
+    progressListener = onProgress ?? null
+    try {
+      return await recognize(page)
+    } finally {
+      progressListener = null
+    }
+  }
+  const result = queue.then(run, run)
+  queue = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Stops the OCR worker; it is started again on the next recognition
+ */
+export async function terminateOcr(): Promise<void> {
+  const current = worker
+  worker = null
+  if (current) {
+    await current.then((w) => w.terminate()).catch(() => undefined)
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Offline dictionary used by the "dictionary" translation provider
+ * Entries are imported by the user as TSV (`headword<TAB>meaning`)
+ * and kept in localStorage, so lookups never touch the network
+ */
+
+export type DictionaryEntries = Record<string, string>
+
+const OFFLINE_DICTIONARY_KEY = "pedaru_offline_dictionary"
+
+export function normalizeHeadword(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+    .replace(/['’]s$/, "")
+}
+
+/**
+ * Parses `headword<TAB>meaning` lines; blank lines and `#` comments are skipped
+ */
+export function parseDictionaryText(text: string): DictionaryEntries {
+  const entries: DictionaryEntries = {}
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue
+
+    const [headword, ...rest] = line.split("\t")
+    const key = normalizeHeadword(headword ?? "")
+    const meaning = rest.join("\t").trim()
+    if (key && meaning) {
+      entries[key] = meaning
+    }
+  }
+  return entries
+}
+
+export function serializeDictionary(entries: DictionaryEntries): string {
+  return Object.entries(entries)
+    .map(([headword, meaning]) => `${headword}\t${meaning}`)
+    .join("\n")
+}
+
+export function getOfflineDictionary(): DictionaryEntries {
+  if (typeof window === "undefined") return {}
+
+  try {
+    const stored = localStorage.getItem(OFFLINE_DICTIONARY_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error("Failed to load offline dictionary:", error)
+    return {}
+  }
+}
+
+export function saveOfflineDictionary(entries: DictionaryEntries): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(OFFLINE_DICTIONARY_KEY, JSON.stringify(entries))
+  } catch (error) {
+    console.error("Failed to save offline dictionary:", error)
+  }
+}
+
+/**
+ * Candidate base forms for a word, most specific first
+ * A handful of English suffix rules is enough for a deterministic fallback
+ */
+function candidateForms(word: string): string[] {
+  const forms = [word]
+  if (word.endsWith("ies")) forms.push(`${word.slice(0, -3)}y`)
+  if (word.endsWith("es")) forms.push(word.slice(0, -2))
+  if (word.endsWith("s")) forms.push(word.slice(0, -1))
+  if (word.endsWith("ied")) forms.push(`${word.slice(0, -3)}y`)
+  if (word.endsWith("ed")) forms.push(word.slice(0, -2), word.slice(0, -1))
+  if (word.endsWith("ing"))
+    forms.push(word.slice(0, -3), `${word.slice(0, -3)}e`)
+  if (word.endsWith("ly")) forms.push(word.slice(0, -2))
+  return forms
+}
+
+export function lookupWord(
+  entries: DictionaryEntries,
+  word: string,
+): { headword: string; meaning: string } | null {
+  const normalized = normalizeHeadword(word)
+  if (!normalized) return null
+
+  for (const form of candidateForms(normalized)) {
+    const meaning = entries[form]
+    if (meaning) {
+      return { headword: form, meaning }
+    }
+  }
+  return null
+}
+
+/**
+ * Returns the sentence that contains the selection, i.e. the sentence
+ * spanning the boundary between contextBefore and contextAfter
+ */
+export function extractSentenceAtBoundary(
+  contextBefore: string,
+  contextAfter: string,
+): { before: string; after: string } {
+  const beforeMatch = contextBefore.match(/(?:^|[.!?]\s+)([^.!?]*)$/)
+  const afterMatch = contextAfter.match(/^[^.!?]*[.!?]?/)
+  return {
+    before: (beforeMatch?.[1] ?? contextBefore).trimStart(),
+    after: (afterMatch?.[0] ?? contextAfter).trimEnd(),
+  }
+}
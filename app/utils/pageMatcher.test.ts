@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest"
+import type { SearchOptions } from "~/types"
+import { buildPageTextView, createPageMatcher } from "./pageMatcher"
+import { DEFAULT_SEARCH_OPTIONS } from "./searchMatcher"
+
+const matchPage = (
+  query: string,
+  items: string[],
+  options: Partial<SearchOptions> = {},
+) => {
+  const matcher = createPageMatcher(query, {
+    ...DEFAULT_SEARCH_OPTIONS,
+    ...options,
+  })
+  return matcher ? matcher(buildPageTextView(items)) : null
+}
+
+describe("pageMatcher", () => {
+  describe("buildPageTextView", () => {
+    it("should join items with a space", () => {
+      const view = buildPageTextView(["the quick", "brown fox"])
+      expect(view.text).toBe("the quick brown fox")
+      expect(view.items[9]).toBe(-1)
+      expect(view.items[10]).toBe(1)
+      expect(view.offsets[10]).toBe(0)
+    })
+
+    it("should repair words split by a hyphenated line break", () => {
+      const view = buildPageTextView(["conver-", "gence is"])
+      expect(view.text).toBe("convergence is")
+      expect(view.items.slice(0, 7)).toEqual([0, 0, 0, 0, 0, 0, 1])
+    })
+
+    it("should repair soft hyphens as well", () => {
+      expect(buildPageTextView(["conver\u00ad", "gence"]).text).toBe(
+        "convergence",
+      )
+    })
+
+    it("should keep the hyphen before a capitalized item", () => {
+      expect(buildPageTextView(["Fast-", "Track"]).text).toBe("Fast- Track")
+    })
+  })
+
+  describe("createPageMatcher", () => {
+    it("should return null for an empty query", () => {
+      expect(matchPage(" ", ["text"])).toBeNull()
+    })
+
+    it("should split a match across items into item ranges", () => {
+      expect(matchPage("convergence", ["conver-", "gence is"])).toEqual([
+        {
+          start: 0,
+          end: 11,
+          score: 1,
+          ranges: [
+            { item: 0, start: 0, end: 6 },
+            { item: 1, start: 0, end: 5 },
+          ],
+        },
+      ])
+    })
+
+    it("should match phrases across line breaks", () => {
+      const [match] = matchPage("quick brown", ["the quick", "brown fox"]) ?? []
+      expect(match?.ranges).toEqual([
+        { item: 0, start: 4, end: 9 },
+        { item: 1, start: 0, end: 5 },
+      ])
+    })
+
+    describe("fuzzy", () => {
+      it("should tolerate typos, including swapped letters", () => {
+        expect(matchPage("gradient", ["a graident descent"])).toEqual([])
+        expect(
+          matchPage("gradient", ["a graident descent"], { fuzzy: true }),
+        ).toEqual([
+          {
+            start: 2,
+            end: 10,
+            score: 0.5,
+            ranges: [{ item: 0, start: 2, end: 10 }],
+          },
+        ])
+      })
+
+      it("should score exact matches above fuzzy ones", () => {
+        const matches = matchPage("gradient", ["gradient gradiant"], {
+          fuzzy: true,
+        })
+        expect(matches?.map(({ start, score }) => ({ start, score }))).toEqual([
+          { start: 0, score: 1 },
+          { start: 9, score: 0.5 },
+        ])
+      })
+
+      it("should require short words to match exactly", () => {
+        expect(matchPage("cat", ["cut"], { fuzzy: true })).toEqual([])
+      })
+    })
+
+    describe("proximity", () => {
+      it("should match terms near each other in any order", () => {
+        const matches = matchPage("delta alpha", ["alpha beta gamma delta"], {
+          proximity: true,
+        })
+        expect(matches).toHaveLength(1)
+        expect(matches?.[0]).toMatchObject({
+          start: 0,
+          end: 22,
+          ranges: [
+            { item: 0, start: 0, end: 5 },
+            { item: 0, start: 17, end: 22 },
+          ],
+        })
+        // 語の間の 12 文字が窓 (200 文字) に占める割合の半分だけ下がる
+        expect(matches?.[0]?.score).toBeCloseTo(0.97)
+      })
+
+      it("should not match terms farther apart than the window", () => {
+        const text = `alpha ${"x ".repeat(150)}delta`
+        expect(matchPage("alpha delta", [text], { proximity: true })).toEqual(
+          [],
+        )
+      })
+
+      it("should score tighter spans higher", () => {
+        const matches = matchPage(
+          "alpha delta",
+          ["alpha beta gamma delta alpha delta"],
+          { proximity: true },
+        )
+        expect(matches).toHaveLength(2)
+        expect(matches?.[1]?.score).toBeGreaterThan(matches?.[0]?.score ?? 1)
+      })
+    })
+  })
+})
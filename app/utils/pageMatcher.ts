@@ -0,0 +1,295 @@
+/**
+ * Page-level search matching on top of the term matcher: hyphenation
+ * repair across text items, typo-tolerant (fuzzy) matching and proximity
+ * matching of several terms, each match with a relevance score
+ * Shared by the search worker and the text layer, so result lists and
+ * on-page highlights agree on what matches and in which order
+ */
+
+import type { SearchOptions } from "~/types"
+import {
+  createSearchMatcher,
+  editDistanceWithin,
+  foldDiacritics,
+  getMaxEdits,
+  splitSearchTerms,
+  type TextMatch,
+} from "~/utils/searchMatcher"
+
+/** Longest span (in characters) over which all terms count as near */
+const PROXIMITY_WINDOW = 200
+
+// 行末のハイフン (ソフトハイフンを含む) と、続く行頭の小文字
+const HYPHENATED_END = /\p{L}[-\u00AD\u2010]$/u
+const LOWERCASE_START = /^\p{Ll}/u
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/**
+ * Text items of a page joined into one searchable text
+ * Items are joined with a space, except that a word split by a
+ * hyphenated line break ("conver-" + "gence") is joined back together
+ */
+export interface PageTextView {
+  text: string
+  /** Source text item of each character; -1 for inserted spaces */
+  items: number[]
+  /** Offset of each character within its source item */
+  offsets: number[]
+}
+
+/**
+ * Part of a match inside one text item
+ */
+export interface ItemTextRange {
+  item: number
+  start: number
+  end: number
+}
+
+export interface PageMatch extends TextMatch {
+  /** Highlighted parts per text item; proximity matches skip the gaps */
+  ranges: ItemTextRange[]
+  /** Relevance in (0, 1]; 1 for an exact match */
+  score: number
+}
+
+export type PageMatcher = (view: PageTextView) => PageMatch[]
+
+interface ScoredMatch extends TextMatch {
+  score: number
+  /** Matched terms of a proximity match */
+  parts?: TextMatch[]
+}
+
+type TermFinder = (text: string) => ScoredMatch[]
+
+export function buildPageTextView(items: string[]): PageTextView {
+  let text = ""
+  const itemIndexes: number[] = []
+  const offsets: number[] = []
+  items.forEach((str, index) => {
+    const next = items[index + 1]
+    const hyphenated =
+      next !== undefined &&
+      HYPHENATED_END.test(str) &&
+      LOWERCASE_START.test(next)
+    const length = hyphenated ? str.length - 1 : str.length
+    text += str.slice(0, length)
+    for (let i = 0; i < length; i++) {
+      itemIndexes.push(index)
+      offsets.push(i)
+    }
+    if (next !== undefined && !hyphenated) {
+      text += " "
+      itemIndexes.push(-1)
+      offsets.push(0)
+    }
+  })
+  return { text, items: itemIndexes, offsets }
+}
+
+/**
+ * Splits a range of the view text into ranges of its source items
+ */
+function toItemRanges(
+  view: PageTextView,
+  start: number,
+  end: number,
+): ItemTextRange[] {
+  const ranges: ItemTextRange[] = []
+  for (let i = start; i < end; i++) {
+    const item = view.items[i] ?? -1
+    if (item < 0) continue
+    const offset = view.offsets[i] ?? 0
+    const last = ranges[ranges.length - 1]
+    if (last && last.item === item && last.end === offset) {
+      last.end = offset + 1
+    } else {
+      ranges.push({ item, start: offset, end: offset + 1 })
+    }
+  }
+  return ranges
+}
+
+/**
+ * Words (or phrases of consecutive words) within a few typos of the
+ * query; exact matches are left to the regular matcher
+ */
+function createFuzzyFinder(
+  query: string,
+  options: SearchOptions,
+): TermFinder | null {
+  const normalize = (value: string) => {
+    const folded = options.ignoreDiacritics ? foldDiacritics(value).text : value
+    return options.caseSensitive ? folded : folded.toLowerCase()
+  }
+  const terms = query.split(/\s+/).filter(Boolean).map(normalize)
+  const maxEdits = terms.map(getMaxEdits)
+  if (maxEdits.every((edits) => edits === 0)) return null
+
+  return (text) => {
+    const words = [...text.matchAll(WORD_PATTERN)].map((match) => ({
+      start: match.index,
+      end: match.index + match[0].length,
+      key: normalize(match[0]),
+    }))
+    const matches: ScoredMatch[] = []
+    for (let i = 0; i + terms.length <= words.length; i++) {
+      let edits = 0
+      const isMatch = terms.every((term, j) => {
+        const distance = editDistanceWithin(
+          words[i + j]?.key ?? "",
+          term,
+          maxEdits[j] ?? 0,
+        )
+        edits += distance ?? 0
+        return distance !== null
+      })
+      const first = words[i]
+      const last = words[i + terms.length - 1]
+      if (!isMatch || edits === 0 || !first || !last) continue
+      matches.push({ start: first.start, end: last.end, score: 0.5 ** edits })
+      i += terms.length - 1
+    }
+    return matches
+  }
+}
+
+/**
+ * Exact matches of a query, plus fuzzy matches that do not overlap them
+ */
+function createTermFinder(query: string, options: SearchOptions): TermFinder {
+  const exact = createSearchMatcher(query, options)
+  const fuzzy =
+    options.fuzzy && !options.regex ? createFuzzyFinder(query, options) : null
+
+  return (text) => {
+    const matches: ScoredMatch[] = (exact?.(text) ?? []).map((match) => ({
+      ...match,
+      score: 1,
+    }))
+    if (!fuzzy) return matches
+    const exactMatches = [...matches]
+    for (const candidate of fuzzy(text)) {
+      const overlaps = exactMatches.some(
+        (match) => match.start < candidate.end && candidate.start < match.end,
+      )
+      if (!overlaps) matches.push(candidate)
+    }
+    return matches.sort((a, b) => a.start - b.start)
+  }
+}
+
+function toProximityMatch(
+  parts: ScoredMatch[],
+  start: number,
+  end: number,
+): ScoredMatch {
+  const matchedLength = parts.reduce(
+    (sum, part) => sum + part.end - part.start,
+    0,
+  )
+  const gap = Math.max(0, end - start - matchedLength)
+  const termScore =
+    parts.reduce((sum, part) => sum + part.score, 0) / parts.length
+  return {
+    start,
+    end,
+    score: termScore * (1 - (0.5 * gap) / PROXIMITY_WINDOW),
+    parts: parts.map((part) => ({ start: part.start, end: part.end })),
+  }
+}
+
+/**
+ * Smallest spans containing every term within the proximity window, in
+ * any order; spans do not overlap and tighter spans score higher
+ */
+function createProximityFinder(
+  terms: string[],
+  options: SearchOptions,
+): TermFinder {
+  const finders = terms.map((term) => createTermFinder(term, options))
+
+  return (text) => {
+    const occurrences = finders
+      .flatMap((find, termIndex) =>
+        find(text).map((match) => ({ ...match, termIndex })),
+      )
+      .sort((a, b) => a.start - b.start)
+
+    const counts = terms.map(() => 0)
+    let covered = 0
+    let left = 0
+    const add = (termIndex: number) => {
+      if (counts[termIndex] === 0) covered++
+      counts[termIndex] = (counts[termIndex] ?? 0) + 1
+    }
+    const remove = (termIndex: number) => {
+      counts[termIndex] = (counts[termIndex] ?? 0) - 1
+      if (counts[termIndex] === 0) covered--
+    }
+
+    // 窓の左端の語が後ろにも現れる間は左端を詰める
+    const shrink = (right: number) => {
+      while (left < right) {
+        const first = occurrences[left]
+        if (!first || (counts[first.termIndex] ?? 0) <= 1) return
+        remove(first.termIndex)
+        left++
+      }
+    }
+
+    const matches: ScoredMatch[] = []
+    occurrences.forEach((occurrence, right) => {
+      add(occurrence.termIndex)
+      shrink(right)
+      while (covered === terms.length) {
+        const parts = occurrences.slice(left, right + 1)
+        const start = parts[0]?.start ?? occurrence.start
+        const end = Math.max(...parts.map((part) => part.end))
+        if (end - start <= PROXIMITY_WINDOW) {
+          matches.push(toProximityMatch(parts, start, end))
+          counts.fill(0)
+          covered = 0
+          left = right + 1
+          return
+        }
+        // 離れすぎている場合は左端の語を外して探し直す
+        const first = occurrences[left]
+        if (first) remove(first.termIndex)
+        left++
+        shrink(right)
+      }
+    })
+    return matches
+  }
+}
+
+/**
+ * Builds a matcher for page views
+ * Fuzzy and proximity matching do not apply to regex queries
+ * @returns null for an empty query
+ * @throws SyntaxError when regex mode is on and the pattern is invalid
+ */
+export function createPageMatcher(
+  query: string,
+  options: SearchOptions,
+): PageMatcher | null {
+  if (!query.trim()) return null
+
+  const terms = options.regex ? [] : splitSearchTerms(query)
+  const find =
+    options.proximity && terms.length > 1
+      ? createProximityFinder(terms, options)
+      : createTermFinder(query, options)
+
+  return (view) =>
+    find(view.text).map(({ start, end, score, parts }) => ({
+      start,
+      end,
+      score,
+      ranges: (parts ?? [{ start, end }]).flatMap((part) =>
+        toItemRanges(view, part.start, part.end),
+      ),
+    }))
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import type { SpreadLayout } from "~/types"
+import {
+  DEFAULT_SPREAD_LAYOUT,
+  getNextSpreadPage,
+  getPrevSpreadPage,
+  getSpreadDisplayPages,
+  getSpreadPages,
+  getSpreadStart,
+} from "./pageSpread"
+
+const coverAlone: SpreadLayout = { ...DEFAULT_SPREAD_LAYOUT, coverAlone: true }
+const rightToLeft: SpreadLayout = {
+  ...DEFAULT_SPREAD_LAYOUT,
+  rightToLeft: true,
+}
+
+describe("pageSpread", () => {
+  describe("getSpreadPages", () => {
+    it("should pair (1,2), (3,4)... by default", () => {
+      expect(getSpreadPages(1, 10, DEFAULT_SPREAD_LAYOUT)).toEqual([1, 2])
+      expect(getSpreadPages(4, 10, DEFAULT_SPREAD_LAYOUT)).toEqual([3, 4])
+      expect(getSpreadStart(6, DEFAULT_SPREAD_LAYOUT)).toBe(5)
+    })
+
+    it("should show the cover alone and pair (2,3), (4,5)...", () => {
+      expect(getSpreadPages(1, 10, coverAlone)).toEqual([1])
+      expect(getSpreadPages(3, 10, coverAlone)).toEqual([2, 3])
+      expect(getSpreadPages(4, 10, coverAlone)).toEqual([4, 5])
+      expect(getSpreadStart(5, coverAlone)).toBe(4)
+    })
+
+    it("should leave the last page alone when it has no partner", () => {
+      expect(getSpreadPages(5, 5, DEFAULT_SPREAD_LAYOUT)).toEqual([5])
+      expect(getSpreadPages(4, 4, coverAlone)).toEqual([4])
+    })
+  })
+
+  describe("getSpreadDisplayPages", () => {
+    it("should keep reading order from left to right by default", () => {
+      expect(getSpreadDisplayPages(3, 10, DEFAULT_SPREAD_LAYOUT)).toEqual([
+        3, 4,
+      ])
+    })
+
+    it("should put the first page on the right for right-to-left books", () => {
+      expect(getSpreadDisplayPages(3, 10, rightToLeft)).toEqual([4, 3])
+      expect(
+        getSpreadDisplayPages(2, 10, { coverAlone: true, rightToLeft: true }),
+      ).toEqual([3, 2])
+    })
+  })
+
+  describe("navigation", () => {
+    it("should move by whole spreads", () => {
+      expect(getNextSpreadPage(1, 10, DEFAULT_SPREAD_LAYOUT)).toBe(3)
+      expect(getPrevSpreadPage(4, DEFAULT_SPREAD_LAYOUT)).toBe(1)
+    })
+
+    it("should step from the cover to the first pair and back", () => {
+      expect(getNextSpreadPage(1, 10, coverAlone)).toBe(2)
+      expect(getNextSpreadPage(3, 10, coverAlone)).toBe(4)
+      expect(getPrevSpreadPage(3, coverAlone)).toBe(1)
+      expect(getPrevSpreadPage(5, coverAlone)).toBe(2)
+    })
+
+    it("should go past the ends so callers can clamp", () => {
+      expect(getNextSpreadPage(9, 10, DEFAULT_SPREAD_LAYOUT)).toBe(11)
+      expect(getPrevSpreadPage(1, coverAlone)).toBe(0)
+    })
+  })
+})
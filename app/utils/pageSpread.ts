@@ -0,0 +1,68 @@
+/**
+ * Page pairing for two-column mode
+ * Pure functions shared by the viewer, page navigation and the popup
+ */
+
+import type { SpreadLayout } from "~/types"
+
+export const DEFAULT_SPREAD_LAYOUT: SpreadLayout = {
+  coverAlone: false,
+  rightToLeft: false,
+}
+
+/**
+ * First page (in reading order) of the spread containing a page
+ */
+export function getSpreadStart(page: number, layout: SpreadLayout): number {
+  if (layout.coverAlone) {
+    // 表紙 (1 ページ目) の後は (2,3), (4,5)... と組む
+    if (page <= 1) return 1
+    return page % 2 === 0 ? page : page - 1
+  }
+  return page % 2 === 0 ? page - 1 : page
+}
+
+/**
+ * Pages of the spread containing a page, in reading order
+ */
+export function getSpreadPages(
+  page: number,
+  totalPages: number,
+  layout: SpreadLayout,
+): number[] {
+  const start = getSpreadStart(page, layout)
+  if (layout.coverAlone && start === 1) return [1]
+  return start + 1 <= totalPages ? [start, start + 1] : [start]
+}
+
+/**
+ * Pages of the spread containing a page, from left to right on screen
+ */
+export function getSpreadDisplayPages(
+  page: number,
+  totalPages: number,
+  layout: SpreadLayout,
+): number[] {
+  const pages = getSpreadPages(page, totalPages, layout)
+  return layout.rightToLeft ? pages.reverse() : pages
+}
+
+/**
+ * First page of the following spread (may exceed the page count)
+ */
+export function getNextSpreadPage(
+  page: number,
+  totalPages: number,
+  layout: SpreadLayout,
+): number {
+  const pages = getSpreadPages(page, totalPages, layout)
+  return (pages[pages.length - 1] ?? page) + 1
+}
+
+/**
+ * First page of the preceding spread (may be below 1)
+ */
+export function getPrevSpreadPage(page: number, layout: SpreadLayout): number {
+  const previous = getSpreadStart(page, layout) - 1
+  return previous < 1 ? previous : getSpreadStart(previous, layout)
+}
@@ -0,0 +1,61 @@
+/**
+ * Background text extraction feeding the search index
+ */
+
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { getPageTextItems } from "~/utils/pdfjs"
+import { type PageText, TEXT_ITEM_SEPARATOR } from "~/utils/searchIndex"
+
+/** Pages extracted per batch sent to the worker */
+const INDEX_BATCH_SIZE = 10
+
+export interface ExtractPageTextsOptions {
+  onBatch: (pages: PageText[]) => void
+  /** Checked between pages; extraction stops once it returns true */
+  isCancelled: () => boolean
+}
+
+function waitForIdle(): Promise<void> {
+  return new Promise((resolve) => {
+    if ("requestIdleCallback" in window) {
+      requestIdleCallback(() => resolve(), { timeout: 200 })
+    } else {
+      setTimeout(resolve, 0)
+    }
+  })
+}
+
+/**
+ * Extracts the text of the given pages in batches, yielding to the main
+ * thread between batches
+ * @returns false when cancelled before finishing
+ */
+export async function extractPageTexts(
+  doc: PDFDocumentProxy,
+  pages: number[],
+  options: ExtractPageTextsOptions,
+): Promise<boolean> {
+  const { onBatch, isCancelled } = options
+  for (let i = 0; i < pages.length; i += INDEX_BATCH_SIZE) {
+    const batch: PageText[] = []
+    for (const pageNumber of pages.slice(i, i + INDEX_BATCH_SIZE)) {
+      if (isCancelled()) return false
+      try {
+        const page = await doc.getPage(pageNumber)
+        const items = await getPageTextItems(page)
+        batch.push({
+          page: pageNumber,
+          text: items.map((item) => item.str).join(TEXT_ITEM_SEPARATOR),
+        })
+      } catch (error) {
+        // 読めないページは空として扱い、次回以降も再試行しない
+        console.error(`Failed to extract text of page ${pageNumber}:`, error)
+        batch.push({ page: pageNumber, text: "" })
+      }
+    }
+    if (isCancelled()) return false
+    onBatch(batch)
+    await waitForIdle()
+  }
+  return true
+}
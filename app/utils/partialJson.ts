@@ -0,0 +1,182 @@
+/**
+ * Incremental JSON parser for streamed model output
+ *
+ * Parses a JSON document that may be cut off at any point and returns
+ * everything that can be recovered so far: unterminated strings are
+ * returned as-is, unfinished arrays/objects contain their complete
+ * members, and values that cannot be known yet are left out
+ */
+
+const INCOMPLETE = Symbol("incomplete")
+
+type PartialValue = unknown | typeof INCOMPLETE
+
+const ESCAPE_SEQUENCES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+}
+
+class PartialJsonParser {
+  private index = 0
+  /** Whether the last string read by parseString had its closing quote */
+  private lastStringComplete = false
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    const value = this.parseValue()
+    return value === INCOMPLETE ? undefined : value
+  }
+
+  private get isEnd(): boolean {
+    return this.index >= this.text.length
+  }
+
+  private skipWhitespace() {
+    while (!this.isEnd && /\s/.test(this.text.charAt(this.index))) {
+      this.index++
+    }
+  }
+
+  private parseValue(): PartialValue {
+    this.skipWhitespace()
+    if (this.isEnd) return INCOMPLETE
+
+    const char = this.text.charAt(this.index)
+    if (char === "{") return this.parseObject()
+    if (char === "[") return this.parseArray()
+    if (char === '"') return this.parseString()
+    return this.parseLiteral()
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    this.index++ // {
+
+    while (true) {
+      this.skipWhitespace()
+      if (this.isEnd) return result
+      if (this.text.charAt(this.index) === "}") {
+        this.index++
+        return result
+      }
+      if (this.text.charAt(this.index) === ",") {
+        this.index++
+        continue
+      }
+
+      if (this.text.charAt(this.index) !== '"') {
+        // 不正な文字はスキップして残りを読む
+        this.index++
+        continue
+      }
+      const key = this.parseString()
+      // キーが途中で切れている場合は値も未確定
+      if (!this.lastStringComplete) return result
+
+      this.skipWhitespace()
+      if (this.isEnd || this.text.charAt(this.index) !== ":") return result
+      this.index++
+
+      const value = this.parseValue()
+      if (value !== INCOMPLETE) {
+        result[key] = value
+      }
+      if (this.isEnd) return result
+    }
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = []
+    this.index++ // [
+
+    while (true) {
+      this.skipWhitespace()
+      if (this.isEnd) return result
+      const char = this.text.charAt(this.index)
+      if (char === "]") {
+        this.index++
+        return result
+      }
+      if (char === ",") {
+        this.index++
+        continue
+      }
+
+      const value = this.parseValue()
+      if (value !== INCOMPLETE) {
+        result.push(value)
+      }
+      if (this.isEnd) return result
+    }
+  }
+
+  private parseString(): string {
+    this.lastStringComplete = false
+    this.index++ // "
+
+    let result = ""
+    while (!this.isEnd) {
+      const char = this.text.charAt(this.index)
+      if (char === '"') {
+        this.index++
+        this.lastStringComplete = true
+        return result
+      }
+      if (char === "\\") {
+        const escaped = this.text.charAt(this.index + 1)
+        if (!escaped) {
+          // エスケープの途中で切れている
+          this.index = this.text.length
+          return result
+        }
+        if (escaped === "u") {
+          const hex = this.text.slice(this.index + 2, this.index + 6)
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            this.index = this.text.length
+            return result
+          }
+          result += String.fromCharCode(Number.parseInt(hex, 16))
+          this.index += 6
+          continue
+        }
+        result += ESCAPE_SEQUENCES[escaped] ?? escaped
+        this.index += 2
+        continue
+      }
+      result += char
+      this.index++
+    }
+    return result
+  }
+
+  private parseLiteral(): PartialValue {
+    const match = this.text
+      .slice(this.index)
+      .match(/^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/)
+    if (!match?.[0]) {
+      // 不正な文字はスキップして残りを読む
+      this.index++
+      return INCOMPLETE
+    }
+    this.index += match[0].length
+    // 末尾で切れている数値はまだ桁が続く可能性がある
+    if (this.isEnd && /\d$/.test(match[0])) return INCOMPLETE
+    return JSON.parse(match[0])
+  }
+}
+
+/**
+ * Strips a leading ```json fence that models sometimes emit even in
+ * JSON mode; a trailing fence is ignored by the parser anyway
+ */
+function stripLeadingFence(text: string): string {
+  return text.trimStart().replace(/^```(?:json)?\s*/, "")
+}
+
+export function parsePartialJson(text: string): unknown {
+  return new PartialJsonParser(stripLeadingFence(text)).parse()
+}
@@ -0,0 +1,244 @@
+/**
+ * Converts annotations stored in the PDF into the app's highlight and
+ * note records
+ *
+ * - Highlight / Underline / StrikeOut become highlights anchored to the
+ *   text layer; a comment in their `/Contents` becomes an attached note
+ * - Text (sticky notes) and FreeText become region notes
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import type {
+  Highlight,
+  HighlightColor,
+  HighlightStyle,
+  Note,
+  PageRegion,
+  TextAnchor,
+  TextItem,
+} from "~/types"
+import { DEFAULT_HIGHLIGHT_COLOR, HIGHLIGHT_COLORS } from "~/utils/highlights"
+import { getPageTextItems, loadPdfjs } from "~/utils/pdfjs"
+import { getTextItemRangeInQuad, type Point } from "~/utils/textGeometry"
+
+/**
+ * Subset of the annotation data returned by `page.getAnnotations()`
+ */
+interface PdfAnnotationData {
+  id: string
+  subtype: string
+  rect: number[]
+  quadPoints?: ArrayLike<number> | null
+  color?: ArrayLike<number> | null
+  contentsObj?: { str: string }
+  titleObj?: { str: string }
+  creationDate?: string | null
+  modificationDate?: string | null
+}
+
+const MARKUP_STYLES: Record<string, HighlightStyle> = {
+  Highlight: "highlight",
+  Underline: "underline",
+  StrikeOut: "strikeout",
+}
+
+const NOTE_SUBTYPES = new Set(["Text", "FreeText"])
+
+export interface AnnotationImportResult {
+  highlights: Highlight[]
+  notes: Note[]
+  /** Markup annotations whose position did not match any text */
+  skipped: number
+}
+
+/**
+ * Picks the palette color closest to an annotation color
+ */
+function nearestHighlightColor(
+  color: ArrayLike<number> | null | undefined,
+): HighlightColor {
+  if (!color || color.length < 3) return DEFAULT_HIGHLIGHT_COLOR
+  const [r = 0, g = 0, b = 0] = Array.from(color)
+  let best = DEFAULT_HIGHLIGHT_COLOR
+  let bestDistance = Number.POSITIVE_INFINITY
+  for (const [name, { rgb }] of Object.entries(HIGHLIGHT_COLORS)) {
+    const distance = (rgb[0] - r) ** 2 + (rgb[1] - g) ** 2 + (rgb[2] - b) ** 2
+    if (distance < bestDistance) {
+      best = name as HighlightColor
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function toQuads(annotation: PdfAnnotationData): Point[][] {
+  const points = annotation.quadPoints ? Array.from(annotation.quadPoints) : []
+  if (points.length < 8) {
+    // QuadPoints が無い場合は Rect 全体を1つのクアッドとして扱う
+    const [x1 = 0, y1 = 0, x2 = 0, y2 = 0] = annotation.rect
+    return [
+      [
+        [x1, y2],
+        [x2, y2],
+        [x1, y1],
+        [x2, y1],
+      ],
+    ]
+  }
+  const quads: Point[][] = []
+  for (let i = 0; i + 8 <= points.length; i += 8) {
+    const quad: Point[] = []
+    for (let j = i; j < i + 8; j += 2) {
+      quad.push([points[j] ?? 0, points[j + 1] ?? 0])
+    }
+    quads.push(quad)
+  }
+  return quads
+}
+
+/**
+ * Finds the text layer anchors covered by a markup annotation
+ */
+function anchorQuads(
+  quads: Point[][],
+  items: TextItem[],
+): { start: TextAnchor; end: TextAnchor; text: string } | null {
+  const ranges = new Map<number, { from: number; to: number }>()
+  for (const quad of quads) {
+    items.forEach((item, index) => {
+      const range = getTextItemRangeInQuad(item, quad)
+      if (!range) return
+      const current = ranges.get(index)
+      ranges.set(
+        index,
+        current
+          ? {
+              from: Math.min(current.from, range.from),
+              to: Math.max(current.to, range.to),
+            }
+          : range,
+      )
+    })
+  }
+  if (ranges.size === 0) return null
+
+  const indexes = [...ranges.keys()].sort((a, b) => a - b)
+  const first = indexes[0] ?? 0
+  const last = indexes[indexes.length - 1] ?? first
+  const text = indexes
+    .map((index) => {
+      const { from, to } = ranges.get(index) ?? { from: 0, to: 0 }
+      return items[index]?.str.slice(from, to) ?? ""
+    })
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim()
+
+  return {
+    start: { textIndex: first, offset: ranges.get(first)?.from ?? 0 },
+    end: { textIndex: last, offset: ranges.get(last)?.to ?? 0 },
+    text,
+  }
+}
+
+function toRegion(page: PDFPageProxy, rect: number[]): PageRegion {
+  const viewport = page.getViewport({ scale: 1 })
+  const [rx1 = 0, ry1 = 0, rx2 = 0, ry2 = 0] = rect
+  // 回転したページでも対角の2点を変換すれば表示上の矩形が得られる
+  const [x1 = 0, y1 = 0] = viewport.convertToViewportPoint(rx1, ry1)
+  const [x2 = 0, y2 = 0] = viewport.convertToViewportPoint(rx2, ry2)
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+  const x = clamp(Math.min(x1, x2) / viewport.width)
+  const y = clamp(Math.min(y1, y2) / viewport.height)
+  return {
+    x,
+    y,
+    width: Math.min(Math.abs(x2 - x1) / viewport.width, 1 - x),
+    height: Math.min(Math.abs(y2 - y1) / viewport.height, 1 - y),
+  }
+}
+
+/**
+ * Reads the supported annotations of every page
+ * Annotations already imported (same `importedFrom`) are skipped, so the
+ * import can be repeated safely
+ */
+export async function importPdfAnnotations(
+  pdfDocument: PDFDocumentProxy,
+  existingKeys: Set<string>,
+): Promise<AnnotationImportResult> {
+  const { PDFDateString } = await loadPdfjs()
+  const result: AnnotationImportResult = {
+    highlights: [],
+    notes: [],
+    skipped: 0,
+  }
+
+  const parseDate = (annotation: PdfAnnotationData) => {
+    const value = annotation.modificationDate || annotation.creationDate
+    const date = value ? PDFDateString.toDateObject(value) : null
+    return date?.getTime() ?? Date.now()
+  }
+
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const page = await pdfDocument.getPage(pageNumber)
+    const annotations = (await page.getAnnotations()) as PdfAnnotationData[]
+    let items: TextItem[] | null = null
+
+    for (const annotation of annotations) {
+      const key = `${pageNumber}:${annotation.id}`
+      if (existingKeys.has(key)) continue
+
+      const style = MARKUP_STYLES[annotation.subtype]
+      const author = annotation.titleObj?.str || undefined
+      const body = annotation.contentsObj?.str?.trim() ?? ""
+      const createdAt = parseDate(annotation)
+
+      if (style) {
+        items ??= await getPageTextItems(page)
+        const anchor = anchorQuads(toQuads(annotation), items)
+        if (!anchor) {
+          result.skipped++
+          continue
+        }
+        const highlight: Highlight = {
+          id: crypto.randomUUID(),
+          page: pageNumber,
+          ...anchor,
+          color: nearestHighlightColor(annotation.color),
+          style,
+          author,
+          importedFrom: key,
+          createdAt,
+        }
+        result.highlights.push(highlight)
+        // 本文が選択テキストと同じなら (書き出し時の既定値) メモにしない
+        if (body && body !== anchor.text) {
+          result.notes.push({
+            id: crypto.randomUUID(),
+            page: pageNumber,
+            anchor: { type: "highlight", highlightId: highlight.id },
+            body,
+            author,
+            importedFrom: key,
+            createdAt,
+            updatedAt: createdAt,
+          })
+        }
+      } else if (NOTE_SUBTYPES.has(annotation.subtype) && body) {
+        result.notes.push({
+          id: crypto.randomUUID(),
+          page: pageNumber,
+          anchor: { type: "region", region: toRegion(page, annotation.rect) },
+          body,
+          author,
+          importedFrom: key,
+          createdAt,
+          updatedAt: createdAt,
+        })
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,84 @@
+/**
+ * Lazy loader for pdf.js
+ *
+ * pdf.js touches browser globals on import, so it is only loaded on
+ * the client when the first document is opened. The worker is bundled
+ * with the app, and the CMaps and standard fonts are served by the app
+ * (see nuxt.config.ts) instead of being fetched from a CDN
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import type { TextItem } from "~/types"
+
+type PdfjsModule = typeof import("pdfjs-dist")
+
+const PDFJS_ASSET_BASE = "/pdfjs"
+
+let pdfjs: Promise<PdfjsModule> | null = null
+
+export function loadPdfjs(): Promise<PdfjsModule> {
+  if (!pdfjs) {
+    pdfjs = Promise.all([
+      import("pdfjs-dist"),
+      import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+    ]).then(([lib, { default: workerUrl }]) => {
+      lib.GlobalWorkerOptions.workerSrc = workerUrl
+      return lib
+    })
+  }
+  return pdfjs
+}
+
+/**
+ * Opens a document from raw bytes
+ * pdf.js transfers the buffer to its worker, so a copy is passed to
+ * keep the caller's data usable (fingerprinting, annotated export, ...)
+ */
+export async function loadPdfDocument(
+  data: Uint8Array,
+): Promise<PDFDocumentProxy> {
+  const lib = await loadPdfjs()
+  const assetUrl = (path: string) =>
+    new URL(`${PDFJS_ASSET_BASE}/${path}/`, window.location.href).href
+  return lib.getDocument({
+    data: data.slice(),
+    cMapUrl: assetUrl("cmaps"),
+    cMapPacked: true,
+    standardFontDataUrl: assetUrl("standard_fonts"),
+  }).promise
+}
+
+// 文字情報のないページに OCR で作った文字 (pdf.js はページを使い回す)
+const ocrTextItems = new WeakMap<PDFPageProxy, TextItem[]>()
+
+/**
+ * Registers synthetic text items recognized by OCR; they stand in for
+ * the page's text only while the page has no text of its own
+ */
+export function setOcrTextItems(page: PDFPageProxy, items: TextItem[]) {
+  ocrTextItems.set(page, items)
+}
+
+/**
+ * Non-empty text items embedded in the page itself
+ */
+export async function getNativeTextItems(
+  page: PDFPageProxy,
+): Promise<TextItem[]> {
+  const textContent = await page.getTextContent()
+  return textContent.items.filter(
+    (item): item is TextItem => "str" in item && !!item.str,
+  )
+}
+
+/**
+ * Non-empty text items of a page, or its OCR items for a scanned page
+ * The array index is the `data-text-index` used by the text layer, so
+ * every consumer of highlight anchors must read items through this
+ */
+export async function getPageTextItems(
+  page: PDFPageProxy,
+): Promise<TextItem[]> {
+  const items = await getNativeTextItems(page)
+  return items.length > 0 ? items : (ocrTextItems.get(page) ?? [])
+}
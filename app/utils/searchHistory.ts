@@ -0,0 +1,68 @@
+/**
+ * Recent search queries: per document in the session state, and across
+ * documents in localStorage
+ */
+
+import type { SearchHistoryEntry, SearchOptions } from "~/types"
+import { encodeSearchOptions } from "~/utils/searchMatcher"
+
+const GLOBAL_HISTORY_KEY = "pedaru_search_history"
+
+/** Entries kept in a document's history */
+export const DOCUMENT_HISTORY_LIMIT = 20
+/** Entries kept in the history across documents */
+export const GLOBAL_HISTORY_LIMIT = 50
+
+export function isSameSearch(
+  a: { query: string; options: SearchOptions },
+  b: { query: string; options: SearchOptions },
+): boolean {
+  return (
+    a.query === b.query &&
+    encodeSearchOptions(a.options) === encodeSearchOptions(b.options)
+  )
+}
+
+/**
+ * Moves the entry to the front of the history, dropping older duplicates
+ * and entries beyond the limit
+ */
+export function addSearchHistoryEntry(
+  history: SearchHistoryEntry[],
+  entry: SearchHistoryEntry,
+  limit: number,
+): SearchHistoryEntry[] {
+  return [entry, ...history.filter((e) => !isSameSearch(e, entry))].slice(
+    0,
+    limit,
+  )
+}
+
+export function getGlobalSearchHistory(): SearchHistoryEntry[] {
+  if (typeof window === "undefined") {
+    return []
+  }
+
+  try {
+    const stored = localStorage.getItem(GLOBAL_HISTORY_KEY)
+    if (stored) {
+      return JSON.parse(stored)
+    }
+  } catch (error) {
+    console.error("Failed to get search history:", error)
+  }
+
+  return []
+}
+
+export function saveGlobalSearchHistory(history: SearchHistoryEntry[]): void {
+  if (typeof window === "undefined") {
+    return
+  }
+
+  try {
+    localStorage.setItem(GLOBAL_HISTORY_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.error("Failed to save search history:", error)
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Inverted full-text index over page texts
+ *
+ * Pages are indexed by character trigrams of their normalized page view
+ * (lowercase, without diacritics, hyphenated line breaks repaired), so
+ * any substring of three or more characters (including Japanese text
+ * without word boundaries) can be looked up in every matching mode;
+ * candidate pages are then verified with the actual matcher. Fuzzy
+ * queries only require the trigrams a few typos cannot destroy, and
+ * regex queries scan every indexed page.
+ * Shared by the search worker and the main thread (message types)
+ */
+
+import type { SearchOptions, SearchResult } from "~/types"
+import { buildPageTextView, createPageMatcher } from "~/utils/pageMatcher"
+import {
+  getMaxEdits,
+  normalizeForIndex,
+  splitSearchTerms,
+} from "~/utils/searchMatcher"
+
+/** Bump when the index layout changes; stored indexes are rebuilt */
+export const SEARCH_INDEX_VERSION = 3
+
+const GRAM_SIZE = 3
+const CONTEXT_LENGTH = 40
+
+/**
+ * Stored page text is the page's text items joined with "\n", so the
+ * items (and the text layer's match order) can be restored from it
+ */
+export const TEXT_ITEM_SEPARATOR = "\n"
+
+export interface SearchIndex {
+  /** Original page texts by page number (1-based) */
+  texts: Map<number, string>
+  /** Normalized trigram → pages containing it */
+  postings: Map<string, Set<number>>
+}
+
+/**
+ * Structured-clone friendly form stored in IndexedDB
+ */
+export interface StoredSearchIndex {
+  fingerprint: string
+  version: number
+  pageCount: number
+  texts: [number, string][]
+  postings: [string, number[]][]
+  updatedAt: number
+}
+
+/**
+ * Matches of a library-wide search in one document
+ */
+export interface LibrarySearchGroup {
+  fingerprint: string
+  results: SearchResult[]
+  total: number
+}
+
+export interface PageText {
+  page: number
+  text: string
+}
+
+export type SearchWorkerRequest =
+  | { type: "open"; fingerprint: string; pageCount: number }
+  | { type: "addPages"; fingerprint: string; pages: PageText[] }
+  | {
+      type: "search"
+      id: number
+      fingerprint: string
+      query: string
+      options: SearchOptions
+    }
+  | {
+      /** Counts matches without replacing the current results */
+      type: "count"
+      id: number
+      fingerprint: string
+      query: string
+      options: SearchOptions
+    }
+  | {
+      type: "searchLibrary"
+      id: number
+      query: string
+      options: SearchOptions
+      /** Results kept per document; `total` still counts every match */
+      limitPerDocument: number
+    }
+  | { type: "close" }
+
+export type SearchWorkerResponse =
+  | { type: "opened"; fingerprint: string; missingPages: number[] }
+  | { type: "indexed"; fingerprint: string; indexedPages: number }
+  | {
+      type: "results"
+      id: number
+      fingerprint: string
+      results: SearchResult[]
+      indexedPages: number
+    }
+  | { type: "counted"; id: number; fingerprint: string; count: number }
+  | { type: "libraryResults"; id: number; groups: LibrarySearchGroup[] }
+  | { type: "closed" }
+  | {
+      type: "error"
+      message: string
+      /** Document of the request that failed, when it was about one */
+      fingerprint?: string
+    }
+
+export function createSearchIndex(): SearchIndex {
+  return { texts: new Map(), postings: new Map() }
+}
+
+function* iterateGrams(text: string): Generator<string> {
+  for (let i = 0; i + GRAM_SIZE <= text.length; i++) {
+    yield text.slice(i, i + GRAM_SIZE)
+  }
+}
+
+const toPageView = (text: string) =>
+  buildPageTextView(text.split(TEXT_ITEM_SEPARATOR))
+
+export function addPageToIndex(
+  index: SearchIndex,
+  page: number,
+  text: string,
+): void {
+  index.texts.set(page, text)
+  for (const gram of iterateGrams(normalizeForIndex(toPageView(text).text))) {
+    let pages = index.postings.get(gram)
+    if (!pages) {
+      pages = new Set()
+      index.postings.set(gram, pages)
+    }
+    pages.add(page)
+  }
+}
+
+/**
+ * Trigrams a page must contain to match the query, per query term
+ * (the whole query unless proximity matching splits it into terms)
+ */
+interface GramRequirement {
+  grams: string[]
+  /** How many of the grams must be present */
+  required: number
+}
+
+function getGramRequirements(
+  query: string,
+  options: SearchOptions,
+): GramRequirement[] {
+  if (options.regex) return []
+  const terms = options.proximity ? splitSearchTerms(query) : [query]
+  return terms.map((term) => {
+    const grams = [...new Set(iterateGrams(normalizeForIndex(term.trim())))]
+    const edits = options.fuzzy
+      ? splitSearchTerms(term).reduce((sum, word) => sum + getMaxEdits(word), 0)
+      : 0
+    // 1文字の誤りで失われる trigram は最大で GRAM_SIZE 個
+    return { grams, required: grams.length - edits * GRAM_SIZE }
+  })
+}
+
+/**
+ * Pages that may contain the query; every indexed page for regex queries
+ * and queries too short to have trigrams
+ */
+function getCandidatePages(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions,
+): number[] {
+  let candidates: number[] | null = null
+  for (const { grams, required } of getGramRequirements(query, options)) {
+    if (required <= 0) continue
+    const counts = new Map<number, number>()
+    for (const gram of grams) {
+      for (const page of index.postings.get(gram) ?? []) {
+        counts.set(page, (counts.get(page) ?? 0) + 1)
+      }
+    }
+    const pages = new Set(
+      [...counts]
+        .filter(([, count]) => count >= required)
+        .map(([page]) => page),
+    )
+    candidates = (candidates ?? [...pages]).filter((page) => pages.has(page))
+  }
+  return candidates ?? [...index.texts.keys()]
+}
+
+/**
+ * Finds every match of the query, ordered by page and position;
+ * `matchIndex` counts matches within a page, in the same order as the
+ * text layer highlighting
+ * @throws SyntaxError for an invalid regex
+ */
+export function searchInIndex(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions,
+): SearchResult[] {
+  const matcher = createPageMatcher(query, options)
+  if (!matcher) return []
+
+  const results: SearchResult[] = []
+  const pages = getCandidatePages(index, query, options).sort((a, b) => a - b)
+  for (const page of pages) {
+    const view = toPageView(index.texts.get(page) ?? "")
+    matcher(view).forEach(({ start, end, score }, matchIndex) => {
+      results.push({
+        page,
+        matchIndex,
+        contextBefore: view.text.slice(
+          Math.max(0, start - CONTEXT_LENGTH),
+          start,
+        ),
+        matchText: view.text.slice(start, end),
+        contextAfter: view.text.slice(end, end + CONTEXT_LENGTH),
+        score,
+      })
+    })
+  }
+  return results
+}
+
+/**
+ * Searches a stored index without rebuilding all of its posting sets;
+ * only the query's trigrams are looked up
+ */
+export function searchStoredIndex(
+  stored: StoredSearchIndex,
+  query: string,
+  options: SearchOptions,
+): SearchResult[] {
+  const grams = new Set(
+    getGramRequirements(query, options).flatMap(({ grams }) => grams),
+  )
+  const postings = new Map<string, Set<number>>()
+  for (const [gram, pages] of stored.postings) {
+    if (grams.has(gram)) postings.set(gram, new Set(pages))
+  }
+  return searchInIndex(
+    { texts: new Map(stored.texts), postings },
+    query,
+    options,
+  )
+}
+
+export function serializeSearchIndex(
+  index: SearchIndex,
+  fingerprint: string,
+  pageCount: number,
+): StoredSearchIndex {
+  return {
+    fingerprint,
+    version: SEARCH_INDEX_VERSION,
+    pageCount,
+    texts: [...index.texts],
+    postings: [...index.postings].map(([gram, pages]) => [gram, [...pages]]),
+    updatedAt: Date.now(),
+  }
+}
+
+export function deserializeSearchIndex(stored: StoredSearchIndex): SearchIndex {
+  return {
+    texts: new Map(stored.texts),
+    postings: new Map(
+      stored.postings.map(([gram, pages]) => [gram, new Set(pages)]),
+    ),
+  }
+}
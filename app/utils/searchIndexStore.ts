@@ -0,0 +1,77 @@
+/**
+ * IndexedDB storage of per-document search indexes
+ * Written by the search worker; the main thread only deletes entries
+ */
+
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import {
+  SEARCH_INDEX_VERSION,
+  type StoredSearchIndex,
+} from "~/utils/searchIndex"
+
+const DB_NAME = "pedaru-search-index"
+const DB_VERSION = 1
+const INDEX_STORE = "indexes"
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      db.createObjectStore(INDEX_STORE, { keyPath: "fingerprint" })
+    }
+  },
+)
+
+export async function loadStoredIndex(
+  fingerprint: string,
+): Promise<StoredSearchIndex | null> {
+  if (!isIndexedDbAvailable()) return null
+  const db = await connect()
+  const stored = await requestToPromise<StoredSearchIndex | undefined>(
+    db
+      .transaction(INDEX_STORE, "readonly")
+      .objectStore(INDEX_STORE)
+      .get(fingerprint),
+  )
+  return stored?.version === SEARCH_INDEX_VERSION ? stored : null
+}
+
+export async function saveStoredIndex(stored: StoredSearchIndex) {
+  if (!isIndexedDbAvailable()) return
+  const db = await connect()
+  const tx = db.transaction(INDEX_STORE, "readwrite")
+  tx.objectStore(INDEX_STORE).put(stored)
+  await transactionDone(tx)
+}
+
+export async function deleteStoredIndex(fingerprint: string) {
+  if (!isIndexedDbAvailable()) return
+  const db = await connect()
+  const tx = db.transaction(INDEX_STORE, "readwrite")
+  tx.objectStore(INDEX_STORE).delete(fingerprint)
+  await transactionDone(tx)
+}
+
+/**
+ * Visits every stored index one at a time, so only one document's index
+ * is held in memory
+ */
+export async function forEachStoredIndex(
+  visit: (stored: StoredSearchIndex) => void,
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return
+  const db = await connect()
+  const store = db.transaction(INDEX_STORE, "readonly").objectStore(INDEX_STORE)
+  const keys = await requestToPromise(store.getAllKeys())
+  for (const key of keys) {
+    // カーソルを開いたまま処理すると取引が終わるため1件ずつ取得する
+    const stored = await loadStoredIndex(String(key))
+    if (stored) visit(stored)
+  }
+}
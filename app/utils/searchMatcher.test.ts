@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+import type { SearchOptions } from "~/types"
+import {
+  createSearchMatcher,
+  DEFAULT_SEARCH_OPTIONS,
+  editDistanceWithin,
+  foldDiacritics,
+  getMaxEdits,
+  normalizeForIndex,
+  splitSearchTerms,
+} from "./searchMatcher"
+
+const match = (
+  query: string,
+  text: string,
+  options: Partial<SearchOptions> = {},
+) => {
+  const matcher = createSearchMatcher(query, {
+    ...DEFAULT_SEARCH_OPTIONS,
+    ...options,
+  })
+  return matcher ? matcher(text) : null
+}
+
+describe("searchMatcher", () => {
+  describe("createSearchMatcher", () => {
+    it("should return null for an empty query", () => {
+      expect(match("   ", "text")).toBeNull()
+    })
+
+    it("should ignore case by default", () => {
+      expect(match("word", "Word WORD")).toEqual([
+        { start: 0, end: 4 },
+        { start: 5, end: 9 },
+      ])
+    })
+
+    it("should respect case when case-sensitive", () => {
+      expect(match("Word", "word Word", { caseSensitive: true })).toEqual([
+        { start: 5, end: 9 },
+      ])
+    })
+
+    it("should treat regex characters literally outside regex mode", () => {
+      expect(match("a.c", "abc a.c")).toEqual([{ start: 4, end: 7 }])
+    })
+
+    it("should only match whole words when enabled", () => {
+      expect(match("cat", "cat concat cats", { wholeWord: true })).toEqual([
+        { start: 0, end: 3 },
+      ])
+    })
+
+    it("should treat accented letters as word characters", () => {
+      expect(match("caf", "caf\u00e9 caf", { wholeWord: true })).toEqual([
+        { start: 5, end: 8 },
+      ])
+    })
+
+    it("should match regular expressions in regex mode", () => {
+      expect(match("b\\w+", "ab bcd", { regex: true })).toEqual([
+        { start: 3, end: 6 },
+      ])
+    })
+
+    it("should skip empty regex matches", () => {
+      expect(match("x*", "abc", { regex: true })).toEqual([])
+    })
+
+    it("should throw on an invalid regex", () => {
+      expect(() => match("(", "text", { regex: true })).toThrow(SyntaxError)
+    })
+
+    it("should map matches back to the original text when folding", () => {
+      // 結合文字で書いた "é" は元の文字列では 2 文字になる
+      const text = "Cafe\u0301 cafe"
+      expect(match("café", text, { ignoreDiacritics: true })).toEqual([
+        { start: 0, end: 5 },
+        { start: 6, end: 10 },
+      ])
+    })
+  })
+
+  describe("foldDiacritics", () => {
+    it("should strip combining marks and keep original offsets", () => {
+      expect(foldDiacritics("e\u0301a")).toEqual({
+        text: "ea",
+        offsets: [0, 2, 3],
+      })
+      expect(foldDiacritics("naïve").text).toBe("naive")
+    })
+  })
+
+  describe("normalizeForIndex", () => {
+    it("should lowercase and remove diacritics", () => {
+      expect(normalizeForIndex("Émile Zola")).toBe("emile zola")
+    })
+  })
+
+  describe("splitSearchTerms", () => {
+    it("should return distinct terms", () => {
+      expect(splitSearchTerms(" alpha  beta alpha ")).toEqual(["alpha", "beta"])
+    })
+  })
+
+  describe("getMaxEdits", () => {
+    it("should allow more typos in longer words", () => {
+      expect(getMaxEdits("cat")).toBe(0)
+      expect(getMaxEdits("word")).toBe(1)
+      expect(getMaxEdits("gradient")).toBe(2)
+    })
+  })
+
+  describe("editDistanceWithin", () => {
+    it("should count insertions, deletions and substitutions", () => {
+      expect(editDistanceWithin("kitten", "sitting", 3)).toBe(3)
+      expect(editDistanceWithin("same", "same", 0)).toBe(0)
+    })
+
+    it("should count a swap of adjacent letters as one edit", () => {
+      expect(editDistanceWithin("graident", "gradient", 1)).toBe(1)
+    })
+
+    it("should return null when the distance exceeds the limit", () => {
+      expect(editDistanceWithin("kitten", "sitting", 2)).toBeNull()
+      expect(editDistanceWithin("abc", "abcdef", 2)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * Search matching shared by the search worker and the text layer, so
+ * result lists and on-page highlights agree on what matches
+ */
+
+import type { SearchOptions } from "~/types"
+
+export interface TextMatch {
+  /** Start offset in the original text */
+  start: number
+  /** End offset (exclusive) in the original text */
+  end: number
+}
+
+export type SearchMatcher = (text: string) => TextMatch[]
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  ignoreDiacritics: false,
+  fuzzy: false,
+  proximity: false,
+}
+
+// 単語境界の判定に使う文字 (ラテン文字の拡張範囲を含む)
+const WORD_CHAR = "[\\w\\u00C0-\\u024F]"
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Removes combining marks (é → e) and keeps, for every character of the
+ * folded text, the offset of the original character it came from
+ */
+export function foldDiacritics(text: string): {
+  text: string
+  offsets: number[]
+} {
+  let folded = ""
+  const offsets: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const base = (text[i] ?? "").normalize("NFD").replace(/\p{M}/gu, "")
+    folded += base
+    for (let j = 0; j < base.length; j++) offsets.push(i)
+  }
+  offsets.push(text.length)
+  return { text: folded, offsets }
+}
+
+/**
+ * Builds a matcher for the query
+ * @returns null for an empty query
+ * @throws SyntaxError when regex mode is on and the pattern is invalid
+ */
+export function createSearchMatcher(
+  query: string,
+  options: SearchOptions,
+): SearchMatcher | null {
+  if (!query.trim()) return null
+
+  const fold = (value: string) =>
+    options.ignoreDiacritics ? foldDiacritics(value).text : value
+  // 行をまたぐ語句も一致するよう空白は1文字以上の空白として扱う
+  let source = options.regex
+    ? fold(query)
+    : escapeRegExp(fold(query)).replace(/\s+/g, "\\s+")
+  if (options.wholeWord) {
+    source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`
+  }
+  const pattern = new RegExp(source, options.caseSensitive ? "g" : "gi")
+
+  return (text) => {
+    const folded = options.ignoreDiacritics ? foldDiacritics(text) : null
+    const target = folded?.text ?? text
+    const matches: TextMatch[] = []
+    for (const match of target.matchAll(pattern)) {
+      // 空文字に一致するパターン (a* など) は結果に含めない
+      if (match[0].length === 0) continue
+      const start = match.index
+      const end = start + match[0].length
+      matches.push(
+        folded
+          ? { start: folded.offsets[start] ?? 0, end: folded.offsets[end] ?? 0 }
+          : { start, end },
+      )
+    }
+    return matches
+  }
+}
+
+/**
+ * Normalization used for index keys: lowercase, without diacritics and
+ * with whitespace collapsed, so one index serves every matching mode
+ */
+export function normalizeForIndex(text: string): string {
+  return foldDiacritics(text.toLowerCase()).text.replace(/\s+/g, " ")
+}
+
+/**
+ * Distinct whitespace-separated terms of a query
+ */
+export function splitSearchTerms(query: string): string[] {
+  return [...new Set(query.split(/\s+/).filter(Boolean))]
+}
+
+/**
+ * Typos tolerated in a word by fuzzy matching; short words must match
+ * exactly, otherwise nearly every short word would match
+ */
+export function getMaxEdits(word: string): number {
+  if (word.length < 4) return 0
+  return word.length < 8 ? 1 : 2
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions and swaps of
+ * adjacent characters) between two strings, or null when it exceeds
+ * `max`; the computation stops as soon as that is certain
+ */
+export function editDistanceWithin(
+  a: string,
+  b: string,
+  max: number,
+): number | null {
+  if (Math.abs(a.length - b.length) > max) return null
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost,
+      )
+      // 隣り合う文字の入れ替え (graident → gradient) は1文字の誤りとみなす
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (beforePrevious[j - 2] ?? 0) + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return null
+    beforePrevious = previous
+    previous = current
+  }
+  const distance = previous[b.length] ?? 0
+  return distance <= max ? distance : null
+}
+
+/**
+ * Short labels of the options, as shown on their toggle buttons
+ */
+export const SEARCH_OPTION_LABELS: Record<keyof SearchOptions, string> = {
+  caseSensitive: "Aa",
+  wholeWord: "ab",
+  regex: ".*",
+  ignoreDiacritics: "é=e",
+  fuzzy: "~",
+  proximity: "a…b",
+}
+
+const OPTION_FLAGS: [keyof SearchOptions, string][] = [
+  ["caseSensitive", "c"],
+  ["wholeWord", "w"],
+  ["regex", "r"],
+  ["ignoreDiacritics", "d"],
+  ["fuzzy", "f"],
+  ["proximity", "p"],
+]
+
+/**
+ * Compact form of the options for URLs (e.g. "cw")
+ */
+export function encodeSearchOptions(options: SearchOptions): string {
+  return OPTION_FLAGS.filter(([key]) => options[key])
+    .map(([, flag]) => flag)
+    .join("")
+}
+
+export function decodeSearchOptions(value: string): SearchOptions {
+  const options = { ...DEFAULT_SEARCH_OPTIONS }
+  for (const [key, flag] of OPTION_FLAGS) {
+    options[key] = value.includes(flag)
+  }
+  return options
+}
@@ -0,0 +1,9 @@
+/**
+ * Starts a search index worker (see workers/searchIndex.worker.ts)
+ */
+export function createSearchWorker(): Worker {
+  return new Worker(
+    new URL("../workers/searchIndex.worker.ts", import.meta.url),
+    { type: "module" },
+  )
+}
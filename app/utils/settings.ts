@@ -0,0 +1,281 @@
+/**
+ * Settings management functions
+ *
+ * This module provides functions to manage application settings,
+ * particularly translation settings.
+ */
+
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  DEFAULT_TARGET_LANGUAGE,
+} from "#shared/utils/languages"
+import type {
+  ExplanationResponse,
+  GeminiModelOption,
+  GeminiSettings,
+  TranslationResponse,
+} from "~/types"
+import {
+  streamTranslationRequest,
+  toPartialExplanation,
+  toPartialTranslation,
+} from "~/utils/translationStream"
+
+// ============================================
+// Default Values
+// ============================================
+
+export const DEFAULT_TRANSLATION_PROVIDER = "gemini"
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash"
+export const DEFAULT_GEMINI_EXPLANATION_MODEL = "gemini-2.0-flash"
+
+export const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
+  apiKey: "",
+  provider: DEFAULT_TRANSLATION_PROVIDER,
+  model: DEFAULT_GEMINI_MODEL,
+  explanationModel: DEFAULT_GEMINI_EXPLANATION_MODEL,
+  openAICompatibleModel: "",
+  sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
+}
+
+// ============================================
+// Available Models
+// ============================================
+
+export const GEMINI_MODELS: GeminiModelOption[] = [
+  {
+    id: "gemini-2.0-flash",
+    name: "Gemini 2.0 Flash",
+    description: "Fast and efficient (Recommended)",
+  },
+  {
+    id: "gemini-2.0-flash-lite",
+    name: "Gemini 2.0 Flash-Lite",
+    description: "Cost-effective for high volume",
+  },
+  {
+    id: "gemini-2.5-flash",
+    name: "Gemini 2.5 Flash",
+    description: "Latest flash model with adaptive thinking",
+  },
+  {
+    id: "gemini-2.5-flash-lite",
+    name: "Gemini 2.5 Flash-Lite",
+    description: "Optimized for efficiency",
+  },
+  {
+    id: "gemini-2.5-pro",
+    name: "Gemini 2.5 Pro",
+    description: "Best for complex tasks",
+  },
+  {
+    id: "gemini-3-flash-preview",
+    name: "Gemini 3 Flash (Preview)",
+    description: "Latest preview with advanced reasoning",
+  },
+  {
+    id: "gemini-3-pro-preview",
+    name: "Gemini 3 Pro (Preview)",
+    description: "Most capable preview model",
+  },
+]
+
+// ============================================
+// LocalStorage Key
+// ============================================
+
+const GEMINI_SETTINGS_KEY = "pedaru_gemini_settings"
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * Get translation settings from localStorage
+ * Note: apiKey is managed server-side via runtimeConfig, always returns empty string
+ */
+export function getGeminiSettings(): GeminiSettings {
+  if (typeof window === "undefined") {
+    return DEFAULT_GEMINI_SETTINGS
+  }
+
+  try {
+    const stored = localStorage.getItem(GEMINI_SETTINGS_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      return {
+        apiKey: "", // API key is managed server-side
+        provider: parsed.provider || DEFAULT_TRANSLATION_PROVIDER,
+        model: parsed.model || DEFAULT_GEMINI_MODEL,
+        explanationModel:
+          parsed.explanationModel || DEFAULT_GEMINI_EXPLANATION_MODEL,
+        openAICompatibleModel: parsed.openAICompatibleModel || "",
+        sourceLanguage: parsed.sourceLanguage || DEFAULT_SOURCE_LANGUAGE,
+        targetLanguage: parsed.targetLanguage || DEFAULT_TARGET_LANGUAGE,
+      }
+    }
+  } catch (error) {
+    console.error("Failed to get Gemini settings:", error)
+  }
+
+  return DEFAULT_GEMINI_SETTINGS
+}
+
+/**
+ * Save translation settings to localStorage
+ */
+export function saveGeminiSettings(settings: GeminiSettings): void {
+  if (typeof window === "undefined") {
+    return
+  }
+
+  try {
+    localStorage.setItem(GEMINI_SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error("Failed to save Gemini settings:", error)
+  }
+}
+
+/**
+ * POSTs a translation request to one of the server routes
+ * Server routes respond with `{ error }` on failure
+ */
+export async function postTranslationRequest<T>(
+  endpoint: string,
+  body: Record<string, unknown>,
+  fallbackMessage: string,
+): Promise<T> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || fallbackMessage)
+  }
+
+  return response.json()
+}
+
+/**
+ * Translate text using Gemini API via server route
+ * Returns a structured response with translation and points
+ */
+export function translateWithGemini(
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  modelOverride?: string,
+): Promise<TranslationResponse> {
+  const settings = getGeminiSettings()
+
+  return postTranslationRequest<TranslationResponse>(
+    "/api/gemini/translate",
+    {
+      text,
+      contextBefore,
+      contextAfter,
+      model: modelOverride || settings.model,
+      sourceLanguage: settings.sourceLanguage,
+      targetLanguage: settings.targetLanguage,
+    },
+    "Translation failed",
+  )
+}
+
+/**
+ * Get explanation of text via server route
+ * Returns summary + explanation points
+ */
+export function explainDirectly(
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  modelOverride?: string,
+): Promise<ExplanationResponse> {
+  const settings = getGeminiSettings()
+
+  return postTranslationRequest<ExplanationResponse>(
+    "/api/gemini/explain",
+    {
+      text,
+      contextBefore,
+      contextAfter,
+      model: modelOverride || settings.explanationModel,
+      sourceLanguage: settings.sourceLanguage,
+      targetLanguage: settings.targetLanguage,
+    },
+    "Explanation failed",
+  )
+}
+
+/**
+ * Streaming variant of translateWithGemini
+ * `onPartial` receives the response parsed so far on every chunk
+ */
+export function streamTranslateWithGemini(
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  onPartial: (partial: TranslationResponse) => void,
+  signal: AbortSignal,
+): Promise<TranslationResponse> {
+  const settings = getGeminiSettings()
+
+  return streamTranslationRequest({
+    endpoint: "/api/gemini/translate-stream",
+    body: {
+      text,
+      contextBefore,
+      contextAfter,
+      model: settings.model,
+      sourceLanguage: settings.sourceLanguage,
+      targetLanguage: settings.targetLanguage,
+    },
+    toPartial: toPartialTranslation,
+    onPartial,
+    signal,
+    fallbackMessage: "Translation failed",
+  })
+}
+
+/**
+ * Streaming variant of explainDirectly
+ */
+export function streamExplainDirectly(
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  onPartial: (partial: ExplanationResponse) => void,
+  signal: AbortSignal,
+): Promise<ExplanationResponse> {
+  const settings = getGeminiSettings()
+
+  return streamTranslationRequest({
+    endpoint: "/api/gemini/explain-stream",
+    body: {
+      text,
+      contextBefore,
+      contextAfter,
+      model: settings.explanationModel,
+      sourceLanguage: settings.sourceLanguage,
+      targetLanguage: settings.targetLanguage,
+    },
+    toPartial: toPartialExplanation,
+    onPartial,
+    signal,
+    fallbackMessage: "Explanation failed",
+  })
+}
+
+/**
+ * Check if Gemini is available
+ * Note: API key is managed server-side, so we assume it's configured.
+ * Errors will be handled when the API is actually called.
+ */
+export function isGeminiConfigured(): boolean {
+  return true
+}
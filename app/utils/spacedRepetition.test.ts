@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import type { ReviewSchedule } from "~/types"
+import {
+  createInitialSchedule,
+  DEFAULT_EASE_FACTOR,
+  formatInterval,
+  isDueToday,
+  MIN_EASE_FACTOR,
+  scheduleReview,
+  startOfDay,
+} from "./spacedRepetition"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date(2026, 0, 15, 14, 30).getTime()
+
+const schedule = (overrides: Partial<ReviewSchedule>): ReviewSchedule => ({
+  ...createInitialSchedule("entry", NOW),
+  ...overrides,
+})
+
+describe("spacedRepetition", () => {
+  describe("createInitialSchedule", () => {
+    it("should be due immediately with the default ease factor", () => {
+      const initial = createInitialSchedule("entry", NOW)
+      expect(initial).toEqual({
+        entryId: "entry",
+        easeFactor: DEFAULT_EASE_FACTOR,
+        interval: 0,
+        repetitions: 0,
+        due: NOW,
+      })
+      expect(isDueToday(initial, NOW)).toBe(true)
+    })
+  })
+
+  describe("scheduleReview", () => {
+    it("should use 1 and 6 days for the first two passing reviews", () => {
+      const first = scheduleReview(schedule({}), 4, NOW)
+      expect(first.interval).toBe(1)
+      expect(first.repetitions).toBe(1)
+
+      const second = scheduleReview(first, 4, NOW)
+      expect(second.interval).toBe(6)
+      expect(second.repetitions).toBe(2)
+    })
+
+    it("should multiply the interval by the ease factor afterwards", () => {
+      const next = scheduleReview(
+        schedule({ interval: 6, repetitions: 2, easeFactor: 2.5 }),
+        4,
+        NOW,
+      )
+      expect(next.interval).toBe(15)
+      expect(next.repetitions).toBe(3)
+    })
+
+    it("should move the ease factor with the grade", () => {
+      const base = schedule({ easeFactor: 2.5 })
+      expect(scheduleReview(base, 5, NOW).easeFactor).toBeCloseTo(2.6)
+      expect(scheduleReview(base, 4, NOW).easeFactor).toBeCloseTo(2.5)
+      expect(scheduleReview(base, 3, NOW).easeFactor).toBeCloseTo(2.36)
+    })
+
+    it("should not drop the ease factor below the minimum", () => {
+      const next = scheduleReview(
+        schedule({ easeFactor: MIN_EASE_FACTOR }),
+        3,
+        NOW,
+      )
+      expect(next.easeFactor).toBe(MIN_EASE_FACTOR)
+    })
+
+    it("should reset the interval but keep the ease factor on a lapse", () => {
+      const next = scheduleReview(
+        schedule({ interval: 40, repetitions: 5, easeFactor: 2.2 }),
+        1,
+        NOW,
+      )
+      expect(next.interval).toBe(1)
+      expect(next.repetitions).toBe(0)
+      expect(next.easeFactor).toBe(2.2)
+    })
+
+    it("should be due at the start of the day after the interval", () => {
+      const next = scheduleReview(schedule({}), 4, NOW)
+      expect(next.due).toBe(startOfDay(NOW) + DAY_MS)
+      expect(next.lastReviewed).toBe(NOW)
+      expect(isDueToday(next, NOW)).toBe(false)
+      expect(isDueToday(next, NOW + DAY_MS)).toBe(true)
+    })
+  })
+
+  describe("formatInterval", () => {
+    it("should format days, months and years", () => {
+      expect(formatInterval(1)).toBe("1日")
+      expect(formatInterval(29)).toBe("29日")
+      expect(formatInterval(90)).toBe("3か月")
+      expect(formatInterval(365)).toBe("1.0年")
+    })
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * SM-2 spaced repetition scheduler
+ *
+ * Grades below 3 reset the card to a one-day interval and keep its ease
+ * factor; passing grades grow the interval by the ease factor, which
+ * itself moves with the grade and never drops below MIN_EASE_FACTOR
+ */
+
+import type { ReviewGrade, ReviewSchedule } from "~/types"
+
+export const DEFAULT_EASE_FACTOR = 2.5
+export const MIN_EASE_FACTOR = 1.3
+export const PASSING_GRADE = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Grade buttons shown on the review page
+ */
+export const REVIEW_GRADE_OPTIONS: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: "もう一度" },
+  { grade: 3, label: "難しい" },
+  { grade: 4, label: "正解" },
+  { grade: 5, label: "簡単" },
+]
+
+/**
+ * Schedule of a card that has never been reviewed; it is due immediately
+ */
+export function createInitialSchedule(
+  entryId: string,
+  now: number = Date.now(),
+): ReviewSchedule {
+  return {
+    entryId,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    due: now,
+  }
+}
+
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  grade: ReviewGrade,
+  now: number = Date.now(),
+): ReviewSchedule {
+  let { repetitions, interval, easeFactor } = schedule
+
+  if (grade < PASSING_GRADE) {
+    // SM-2 と同じく、忘れたカードは間隔だけをやり直し E-Factor は変えない
+    repetitions = 0
+    interval = 1
+  } else {
+    if (repetitions === 0) {
+      interval = 1
+    } else if (repetitions === 1) {
+      interval = 6
+    } else {
+      interval = Math.round(interval * schedule.easeFactor)
+    }
+    repetitions++
+    easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+    )
+  }
+
+  return {
+    entryId: schedule.entryId,
+    easeFactor,
+    interval,
+    repetitions,
+    due: startOfDay(now) + interval * DAY_MS,
+    lastReviewed: now,
+  }
+}
+
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp)
+  date.setHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+/**
+ * Cards due at any time today count towards today's reviews
+ */
+export function isDueToday(
+  schedule: ReviewSchedule,
+  now: number = Date.now(),
+): boolean {
+  return schedule.due < startOfDay(now) + DAY_MS
+}
+
+/**
+ * Human readable interval for the grade buttons, e.g. "1日" / "3か月"
+ */
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days}日`
+  if (days < 365) return `${Math.round(days / 30)}か月`
+  return `${(days / 365).toFixed(1)}年`
+}
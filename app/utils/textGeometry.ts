@@ -0,0 +1,111 @@
+/**
+ * Geometry of pdf.js text items in PDF user space
+ * Shared by annotation export and import so both map characters to the
+ * same positions
+ */
+
+import type { TextItem } from "~/types"
+
+export type Point = [number, number]
+
+// ベースラインから見た文字の上端・下端 (フォントサイズ比)
+const GLYPH_ASCENT = 0.8
+const GLYPH_DESCENT = 0.2
+
+interface TextItemAxes {
+  origin: Point
+  /** Unit vector along the baseline */
+  dir: Point
+  /** Unit vector towards the top of the glyphs */
+  up: Point
+  fontHeight: number
+}
+
+function getTextItemAxes(item: TextItem): TextItemAxes {
+  const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = item.transform
+  const dirScale = Math.hypot(a, b) || 1
+  const fontHeight = Math.hypot(c, d) || item.height || 1
+  return {
+    origin: [e, f],
+    dir: [a / dirScale, b / dirScale],
+    up: [c / fontHeight, d / fontHeight],
+    fontHeight,
+  }
+}
+
+/**
+ * Quadrilateral covering characters [from, to) of a text item; characters
+ * are assumed to have equal widths
+ * Order follows the de facto QuadPoints convention: top-left, top-right,
+ * bottom-left, bottom-right
+ */
+export function getTextItemQuad(
+  item: TextItem,
+  from: number,
+  to: number,
+): Point[] {
+  const { origin, dir, up, fontHeight } = getTextItemAxes(item)
+  const length = item.str.length || 1
+  const at = (along: number, across: number): Point => [
+    origin[0] + dir[0] * along + up[0] * across,
+    origin[1] + dir[1] * along + up[1] * across,
+  ]
+  const startX = (item.width * from) / length
+  const endX = (item.width * to) / length
+  const top = fontHeight * GLYPH_ASCENT
+  const bottom = -fontHeight * GLYPH_DESCENT
+
+  return [at(startX, top), at(endX, top), at(startX, bottom), at(endX, bottom)]
+}
+
+/**
+ * Axis-aligned bounds [minX, minY, maxX, maxY] of a set of points
+ */
+export function getBounds(points: Point[]): [number, number, number, number] {
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+/**
+ * Character range [from, to) of a text item covered by a quadrilateral,
+ * or null when the quad does not cover the item's line
+ */
+export function getTextItemRangeInQuad(
+  item: TextItem,
+  quad: Point[],
+): { from: number; to: number } | null {
+  const { origin, dir, up, fontHeight } = getTextItemAxes(item)
+  const length = item.str.length
+  if (length === 0 || item.width <= 0) return null
+
+  // クアッドの各頂点を文字の基準軸に射影する
+  const project = ([x, y]: Point) => {
+    const dx = x - origin[0]
+    const dy = y - origin[1]
+    return {
+      along: dx * dir[0] + dy * dir[1],
+      across: dx * up[0] + dy * up[1],
+    }
+  }
+  const projected = quad.map(project)
+  const alongs = projected.map((p) => p.along)
+  const acrosses = projected.map((p) => p.across)
+
+  // 行の高さの半分以上が重なっていなければ別の行とみなす
+  const lineBottom = -fontHeight * GLYPH_DESCENT
+  const lineTop = fontHeight * GLYPH_ASCENT
+  const overlap =
+    Math.min(lineTop, Math.max(...acrosses)) -
+    Math.max(lineBottom, Math.min(...acrosses))
+  if (overlap < (lineTop - lineBottom) / 2) return null
+
+  const charWidth = item.width / length
+  // 文字の 30% 以上が覆われていればその文字を含める
+  const from = Math.max(0, Math.ceil(Math.min(...alongs) / charWidth - 0.7))
+  const to = Math.min(
+    length,
+    Math.floor(Math.max(...alongs) / charWidth - 0.3) + 1,
+  )
+  return to > from ? { from, to } : null
+}
@@ -0,0 +1,140 @@
+/**
+ * Page thumbnails and their persistent cache
+ *
+ * Thumbnails are small JPEG images keyed by document fingerprint and
+ * page, evicted least-recently-used once the byte cap is exceeded
+ */
+
+import type { PDFPageProxy } from "pdfjs-dist"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+
+const DB_NAME = "pedaru-thumbnails"
+const DB_VERSION = 1
+const THUMBNAIL_STORE = "thumbnails"
+
+/** Width of the rendered thumbnail image (px, before devicePixelRatio) */
+export const THUMBNAIL_WIDTH = 120
+export const MAX_THUMBNAIL_CACHE_BYTES = 30 * 1024 * 1024
+const THUMBNAIL_QUALITY = 0.7
+/** Eviction scans the whole store, so it runs once per this many writes */
+const EVICTION_INTERVAL = 20
+
+let writesSinceEviction = 0
+
+interface ThumbnailEntry {
+  fingerprint: string
+  page: number
+  image: Blob
+  size: number
+  lastAccessed: number
+}
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const store = db.createObjectStore(THUMBNAIL_STORE, {
+        keyPath: ["fingerprint", "page"],
+      })
+      store.createIndex("lastAccessed", "lastAccessed")
+    }
+  },
+)
+
+/**
+ * Renders a page into a JPEG image THUMBNAIL_WIDTH wide
+ */
+export async function renderThumbnail(page: PDFPageProxy): Promise<Blob> {
+  const outputScale = window.devicePixelRatio || 1
+  const scale =
+    (THUMBNAIL_WIDTH * outputScale) / page.getViewport({ scale: 1 }).width
+  const viewport = page.getViewport({ scale })
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  await page.render({ canvas, viewport }).promise
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", THUMBNAIL_QUALITY),
+  )
+  canvas.width = 0
+  canvas.height = 0
+  if (!blob) throw new Error("Failed to encode thumbnail")
+  return blob
+}
+
+export async function getCachedThumbnail(
+  fingerprint: string,
+  page: number,
+): Promise<Blob | null> {
+  if (!isIndexedDbAvailable()) return null
+
+  const db = await connect()
+  const tx = db.transaction(THUMBNAIL_STORE, "readwrite")
+  const store = tx.objectStore(THUMBNAIL_STORE)
+  const entry = await requestToPromise<ThumbnailEntry | undefined>(
+    store.get([fingerprint, page]),
+  )
+  if (entry) {
+    // LRU のため参照時刻を更新する
+    store.put({ ...entry, lastAccessed: Date.now() })
+  }
+  await transactionDone(tx)
+  return entry?.image ?? null
+}
+
+export async function putCachedThumbnail(
+  fingerprint: string,
+  page: number,
+  image: Blob,
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return
+
+  const db = await connect()
+  const tx = db.transaction(THUMBNAIL_STORE, "readwrite")
+  const entry: ThumbnailEntry = {
+    fingerprint,
+    page,
+    image,
+    size: image.size,
+    lastAccessed: Date.now(),
+  }
+  tx.objectStore(THUMBNAIL_STORE).put(entry)
+  await transactionDone(tx)
+
+  // サムネイルはまとめて作られるので、書き込みのたびには走査しない
+  if (++writesSinceEviction >= EVICTION_INTERVAL) {
+    writesSinceEviction = 0
+    await evictLeastRecentlyUsed()
+  }
+}
+
+/**
+ * Deletes the oldest thumbnails until the byte cap is satisfied
+ */
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const db = await connect()
+  const tx = db.transaction(THUMBNAIL_STORE, "readwrite")
+  const index = tx.objectStore(THUMBNAIL_STORE).index("lastAccessed")
+
+  let bytes = 0
+  // 新しい順に走査し、上限を超えた以降のサムネイルを削除する
+  const request = index.openCursor(null, "prev")
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+
+    bytes += (cursor.value as ThumbnailEntry).size
+    if (bytes > MAX_THUMBNAIL_CACHE_BYTES) {
+      cursor.delete()
+    }
+    cursor.continue()
+  }
+  await transactionDone(tx)
+}
@@ -0,0 +1,313 @@
+/**
+ * Persistent cache for translation and explanation results
+ *
+ * Entries are keyed by a hash of the selected text, its context, the
+ * provider/model, the language pair and the prompt version, and are
+ * evicted least-recently-used once the entry or byte cap is exceeded
+ */
+
+import { TRANSLATION_PROMPT_VERSION } from "#shared/utils/translationPromptVersion"
+import type {
+  ExplanationResponse,
+  GeminiSettings,
+  TranslationResponse,
+} from "~/types"
+import {
+  createDatabaseConnector,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone,
+} from "~/utils/indexedDb"
+import type { TranslationProvider } from "~/utils/translationProviders"
+
+const DB_NAME = "pedaru-translation-cache"
+const DB_VERSION = 1
+const ENTRY_STORE = "entries"
+
+export const MAX_CACHE_ENTRIES = 2000
+export const MAX_CACHE_BYTES = 5 * 1024 * 1024
+
+export type TranslationCacheKind = "translation" | "explanation"
+
+interface TranslationCacheEntry {
+  key: string
+  kind: TranslationCacheKind
+  response: TranslationResponse | ExplanationResponse
+  size: number
+  createdAt: number
+  lastAccessed: number
+}
+
+export interface TranslationCacheKeyParams {
+  kind: TranslationCacheKind
+  providerId: string
+  model: string
+  sourceLanguage: string
+  targetLanguage: string
+  text: string
+  contextBefore: string
+  contextAfter: string
+}
+
+const connect = createDatabaseConnector(
+  DB_NAME,
+  DB_VERSION,
+  (db, oldVersion) => {
+    if (oldVersion < 1) {
+      const store = db.createObjectStore(ENTRY_STORE, { keyPath: "key" })
+      store.createIndex("lastAccessed", "lastAccessed")
+    }
+  },
+)
+
+export async function createTranslationCacheKey(
+  params: TranslationCacheKeyParams,
+): Promise<string> {
+  const source = JSON.stringify([
+    TRANSLATION_PROMPT_VERSION,
+    params.kind,
+    params.providerId,
+    params.model,
+    params.sourceLanguage,
+    params.targetLanguage,
+    params.text,
+    params.contextBefore,
+    params.contextAfter,
+  ])
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(source),
+  )
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+export async function getCachedResponse<
+  T extends TranslationResponse | ExplanationResponse,
+>(key: string): Promise<T | null> {
+  if (!isIndexedDbAvailable()) return null
+
+  const db = await connect()
+  const tx = db.transaction(ENTRY_STORE, "readwrite")
+  const store = tx.objectStore(ENTRY_STORE)
+  const entry = await requestToPromise<TranslationCacheEntry | undefined>(
+    store.get(key),
+  )
+  if (entry) {
+    // LRU のため参照時刻を更新する
+    store.put({ ...entry, lastAccessed: Date.now() })
+  }
+  await transactionDone(tx)
+  return entry ? (entry.response as T) : null
+}
+
+export async function putCachedResponse(
+  key: string,
+  kind: TranslationCacheKind,
+  response: TranslationResponse | ExplanationResponse,
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return
+
+  const db = await connect()
+  const tx = db.transaction(ENTRY_STORE, "readwrite")
+  const now = Date.now()
+  const entry: TranslationCacheEntry = {
+    key,
+    kind,
+    response,
+    size: new Blob([JSON.stringify(response)]).size,
+    createdAt: now,
+    lastAccessed: now,
+  }
+  tx.objectStore(ENTRY_STORE).put(entry)
+  await transactionDone(tx)
+
+  await evictLeastRecentlyUsed()
+}
+
+/**
+ * Deletes the oldest entries until both caps are satisfied
+ */
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const db = await connect()
+  const tx = db.transaction(ENTRY_STORE, "readwrite")
+  const index = tx.objectStore(ENTRY_STORE).index("lastAccessed")
+
+  let count = 0
+  let bytes = 0
+  // 新しい順に走査し、上限を超えた以降のエントリを削除する
+  const request = index.openCursor(null, "prev")
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+
+    const entry = cursor.value as TranslationCacheEntry
+    count++
+    bytes += entry.size
+    if (count > MAX_CACHE_ENTRIES || bytes > MAX_CACHE_BYTES) {
+      cursor.delete()
+    }
+    cursor.continue()
+  }
+  await transactionDone(tx)
+}
+
+export async function clearTranslationCache(): Promise<void> {
+  if (!isIndexedDbAvailable()) return
+
+  const db = await connect()
+  const tx = db.transaction(ENTRY_STORE, "readwrite")
+  tx.objectStore(ENTRY_STORE).clear()
+  await transactionDone(tx)
+}
+
+// ============================================
+// Cached provider requests
+// ============================================
+
+export interface CachedRequestOptions<T> {
+  /** Skip the cache lookup and overwrite the entry with a fresh result */
+  bypassCache?: boolean
+  onPartial: (partial: T) => void
+  signal: AbortSignal
+}
+
+export interface CachedResult<T> {
+  response: T
+  fromCache: boolean
+}
+
+interface ProviderRequest<T> {
+  kind: TranslationCacheKind
+  model: string
+  run: (onPartial: (partial: T) => void, signal: AbortSignal) => Promise<T>
+}
+
+/**
+ * Whether a response is worth caching: an empty translation or summary
+ * (e.g. a model that returned nothing) would otherwise be served until
+ * it is evicted
+ */
+function hasContent(
+  response: TranslationResponse | ExplanationResponse,
+): boolean {
+  const main =
+    "translation" in response ? response.translation : response.summary
+  return main.trim().length > 0
+}
+
+async function runWithCache<
+  T extends TranslationResponse | ExplanationResponse,
+>(
+  provider: TranslationProvider,
+  settings: GeminiSettings,
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  request: ProviderRequest<T>,
+  { bypassCache = false, onPartial, signal }: CachedRequestOptions<T>,
+): Promise<CachedResult<T>> {
+  const key = provider.cacheable
+    ? await createTranslationCacheKey({
+        kind: request.kind,
+        providerId: provider.id,
+        model: request.model,
+        sourceLanguage: settings.sourceLanguage,
+        targetLanguage: settings.targetLanguage,
+        text,
+        contextBefore,
+        contextAfter,
+      }).catch(() => null)
+    : null
+
+  if (key && !bypassCache) {
+    const cached = await getCachedResponse<T>(key).catch((error) => {
+      console.error("Failed to read translation cache:", error)
+      return null
+    })
+    if (cached) {
+      return { response: cached, fromCache: true }
+    }
+  }
+
+  // ストリームは done まで届いた場合だけ解決するので、途中で切れた結果は保存されない
+  const response = await request.run(onPartial, signal)
+  if (key && !signal.aborted && hasContent(response)) {
+    putCachedResponse(key, request.kind, response).catch((error) => {
+      console.error("Failed to write translation cache:", error)
+    })
+  }
+  return { response, fromCache: false }
+}
+
+/**
+ * Translates through the provider, streaming when it supports it, and
+ * serves/stores the result from the persistent cache
+ */
+export function translateWithCache(
+  provider: TranslationProvider,
+  settings: GeminiSettings,
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  options: CachedRequestOptions<TranslationResponse>,
+): Promise<CachedResult<TranslationResponse>> {
+  return runWithCache(
+    provider,
+    settings,
+    text,
+    contextBefore,
+    contextAfter,
+    {
+      kind: "translation",
+      model: provider.getModelId(settings),
+      run: (onPartial, signal) =>
+        provider.translateStream
+          ? provider.translateStream(
+              text,
+              contextBefore,
+              contextAfter,
+              onPartial,
+              signal,
+            )
+          : provider.translate(text, contextBefore, contextAfter),
+    },
+    options,
+  )
+}
+
+/**
+ * Explanation counterpart of translateWithCache
+ */
+export function explainWithCache(
+  provider: TranslationProvider,
+  settings: GeminiSettings,
+  text: string,
+  contextBefore: string,
+  contextAfter: string,
+  options: CachedRequestOptions<ExplanationResponse>,
+): Promise<CachedResult<ExplanationResponse>> {
+  return runWithCache(
+    provider,
+    settings,
+    text,
+    contextBefore,
+    contextAfter,
+    {
+      kind: "explanation",
+      model: provider.getExplanationModelId(settings),
+      run: (onPartial, signal) =>
+        provider.explainStream
+          ? provider.explainStream(
+              text,
+              contextBefore,
+              contextAfter,
+              onPartial,
+              signal,
+            )
+          : provider.explain(text, contextBefore, contextAfter),
+    },
+    options,
+  )
+}
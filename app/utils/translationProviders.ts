@@ -0,0 +1,217 @@
+/**
+ * Translation provider registry
+ *
+ * Every backend (Gemini, OpenAI-compatible servers, the offline
+ * dictionary, ...) implements TranslationProvider and is looked up
+ * by the id stored in GeminiSettings.provider
+ */
+
+import { getPointLabels } from "#shared/utils/languages"
+import type {
+  ExplanationResponse,
+  GeminiSettings,
+  TranslationResponse,
+} from "~/types"
+import {
+  extractSentenceAtBoundary,
+  getOfflineDictionary,
+  lookupWord,
+} from "~/utils/offlineDictionary"
+import {
+  DEFAULT_TRANSLATION_PROVIDER,
+  explainDirectly,
+  GEMINI_MODELS,
+  getGeminiSettings,
+  postTranslationRequest,
+  streamExplainDirectly,
+  streamTranslateWithGemini,
+  translateWithGemini,
+} from "~/utils/settings"
+
+export interface TranslationProvider {
+  id: string
+  name: string
+  description: string
+  /** Whether results may be stored in the persistent translation cache */
+  cacheable: boolean
+  /** Model used for translation; part of the cache key */
+  getModelId: (settings: GeminiSettings) => string
+  /** Model used for explanation; part of the cache key */
+  getExplanationModelId: (settings: GeminiSettings) => string
+  /** Label of the model used for translation, shown in the popup footer */
+  getModelLabel: (settings: GeminiSettings) => string
+  /** Label of the model used for explanation, shown in the popup footer */
+  getExplanationModelLabel: (settings: GeminiSettings) => string
+  translate: (
+    text: string,
+    contextBefore: string,
+    contextAfter: string,
+  ) => Promise<TranslationResponse>
+  explain: (
+    text: string,
+    contextBefore: string,
+    contextAfter: string,
+  ) => Promise<ExplanationResponse>
+  /** Optional streaming variant; `onPartial` is called as output arrives */
+  translateStream?: (
+    text: string,
+    contextBefore: string,
+    contextAfter: string,
+    onPartial: (partial: TranslationResponse) => void,
+    signal: AbortSignal,
+  ) => Promise<TranslationResponse>
+  /** Optional streaming variant of explain */
+  explainStream?: (
+    text: string,
+    contextBefore: string,
+    contextAfter: string,
+    onPartial: (partial: ExplanationResponse) => void,
+    signal: AbortSignal,
+  ) => Promise<ExplanationResponse>
+}
+
+const geminiModelName = (id: string) =>
+  GEMINI_MODELS.find((m) => m.id === id)?.name || id
+
+const geminiProvider: TranslationProvider = {
+  id: "gemini",
+  name: "Gemini",
+  description: "Google Gemini via the server-side API key",
+  cacheable: true,
+  getModelId: (settings) => settings.model,
+  getExplanationModelId: (settings) => settings.explanationModel,
+  getModelLabel: (settings) => geminiModelName(settings.model),
+  getExplanationModelLabel: (settings) =>
+    geminiModelName(settings.explanationModel),
+  translate: (text, contextBefore, contextAfter) =>
+    translateWithGemini(text, contextBefore, contextAfter),
+  explain: (text, contextBefore, contextAfter) =>
+    explainDirectly(text, contextBefore, contextAfter),
+  translateStream: streamTranslateWithGemini,
+  explainStream: streamExplainDirectly,
+}
+
+const openAICompatibleRequestOptions = () => {
+  const settings = getGeminiSettings()
+  return {
+    model: settings.openAICompatibleModel,
+    sourceLanguage: settings.sourceLanguage,
+    targetLanguage: settings.targetLanguage,
+  }
+}
+
+const openAICompatibleProvider: TranslationProvider = {
+  id: "openai-compatible",
+  name: "OpenAI-compatible",
+  description: "Local llama.cpp / Ollama or any /v1/chat/completions server",
+  cacheable: true,
+  getModelId: (settings) => settings.openAICompatibleModel,
+  getExplanationModelId: (settings) => settings.openAICompatibleModel,
+  getModelLabel: (settings) => settings.openAICompatibleModel || "default",
+  getExplanationModelLabel: (settings) =>
+    settings.openAICompatibleModel || "default",
+  translate: (text, contextBefore, contextAfter) =>
+    postTranslationRequest<TranslationResponse>(
+      "/api/openai-compatible/translate",
+      {
+        text,
+        contextBefore,
+        contextAfter,
+        ...openAICompatibleRequestOptions(),
+      },
+      "Translation failed",
+    ),
+  explain: (text, contextBefore, contextAfter) =>
+    postTranslationRequest<ExplanationResponse>(
+      "/api/openai-compatible/explain",
+      {
+        text,
+        contextBefore,
+        contextAfter,
+        ...openAICompatibleRequestOptions(),
+      },
+      "Explanation failed",
+    ),
+}
+
+const glossWords = (text: string): string[] => {
+  const entries = getOfflineDictionary()
+  const seen = new Set<string>()
+  const glosses: string[] = []
+  for (const token of text.split(/\s+/)) {
+    const hit = lookupWord(entries, token)
+    if (hit && !seen.has(hit.headword)) {
+      seen.add(hit.headword)
+      glosses.push(`${hit.headword}: ${hit.meaning}`)
+    }
+  }
+  return glosses
+}
+
+const dictionaryProvider: TranslationProvider = {
+  id: "dictionary",
+  name: "Offline dictionary",
+  description: "Deterministic lookups in a user-imported word list",
+  // 辞書の編集をすぐ反映させるためキャッシュしない
+  cacheable: false,
+  getModelId: () => "dictionary",
+  getExplanationModelId: () => "dictionary",
+  getModelLabel: () => "Offline dictionary",
+  getExplanationModelLabel: () => "Offline dictionary",
+  translate: async (text, contextBefore, contextAfter) => {
+    const trimmed = text.trim()
+    if (/\s/.test(trimmed)) {
+      const glosses = glossWords(trimmed)
+      return { translation: glosses.join(" / "), points: glosses }
+    }
+
+    const hit = lookupWord(getOfflineDictionary(), trimmed)
+    if (!hit) {
+      return { translation: "", points: [] }
+    }
+    const { before, after } = extractSentenceAtBoundary(
+      contextBefore,
+      contextAfter,
+    )
+    const labels = getPointLabels(getGeminiSettings().targetLanguage)
+    return {
+      translation: hit.meaning,
+      points: [
+        `${labels.meaning}: ${hit.meaning}`,
+        `${labels.original}: ${before}***${trimmed}***${after}`,
+      ],
+    }
+  },
+  explain: async (text) => {
+    const glosses = glossWords(text.trim())
+    return { summary: glosses.join(" / "), points: glosses }
+  },
+}
+
+const registry = new Map<string, TranslationProvider>()
+
+export function registerTranslationProvider(provider: TranslationProvider) {
+  registry.set(provider.id, provider)
+}
+
+export function listTranslationProviders(): TranslationProvider[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * Returns the provider for the given id, falling back to the default
+ * provider when the stored id is no longer registered
+ */
+export function getTranslationProvider(id?: string): TranslationProvider {
+  const provider =
+    registry.get(id ?? getGeminiSettings().provider) ??
+    registry.get(DEFAULT_TRANSLATION_PROVIDER)
+  if (!provider) {
+    throw new Error(`Unknown translation provider: ${id}`)
+  }
+  return provider
+}
+
+registerTranslationProvider(geminiProvider)
+registerTranslationProvider(openAICompatibleProvider)
+registerTranslationProvider(dictionaryProvider)
@@ -0,0 +1,95 @@
+/**
+ * Client for the `*-stream` translation routes
+ * Model output is parsed incrementally so the popup can render the
+ * translation and each point while the response is still arriving
+ */
+
+import type {
+  TranslationStreamChunk,
+  TranslationStreamEvent,
+} from "#shared/types/translation"
+import { readServerSentEvents } from "#shared/utils/sse"
+import type { ExplanationResponse, TranslationResponse } from "~/types"
+import { parsePartialJson } from "~/utils/partialJson"
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((v: unknown): v is string => typeof v === "string")
+    : []
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+
+export function toPartialTranslation(value: unknown): TranslationResponse {
+  const obj = asRecord(value)
+  return {
+    translation: typeof obj.translation === "string" ? obj.translation : "",
+    points: toStringArray(obj.points),
+  }
+}
+
+export function toPartialExplanation(value: unknown): ExplanationResponse {
+  const obj = asRecord(value)
+  return {
+    summary: typeof obj.summary === "string" ? obj.summary : "",
+    points: toStringArray(obj.points),
+  }
+}
+
+export interface StreamTranslationOptions<T> {
+  endpoint: string
+  body: Record<string, unknown>
+  toPartial: (value: unknown) => T
+  onPartial: (partial: T) => void
+  signal: AbortSignal
+  fallbackMessage: string
+}
+
+/**
+ * POSTs to a stream route and resolves with the final parsed response
+ * Rejects with an AbortError when `signal` is aborted, and with an error
+ * when the stream closes before the `done` event
+ */
+export async function streamTranslationRequest<T>({
+  endpoint,
+  body,
+  toPartial,
+  onPartial,
+  signal,
+  fallbackMessage,
+}: StreamTranslationOptions<T>): Promise<T> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || fallbackMessage)
+  }
+
+  let text = ""
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    switch (event as TranslationStreamEvent) {
+      case "chunk":
+        text += (JSON.parse(data) as TranslationStreamChunk).text
+        onPartial(toPartial(parsePartialJson(text)))
+        break
+      case "done":
+        return JSON.parse(data) as T
+      case "error":
+        throw new Error(JSON.parse(data).error || fallbackMessage)
+    }
+  }
+
+  // done イベントが届かずに切断された場合、途中までの内容は結果として扱わない
+  throw new Error(`${fallbackMessage}: the response ended unexpectedly`)
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError"
+}
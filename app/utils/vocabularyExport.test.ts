@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest"
+import type { ExportRecord, VocabularyExportSettings } from "./vocabularyExport"
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  formatHighlight,
+  getExportSettings,
+  mapRecords,
+  toDelimitedText,
+} from "./vocabularyExport"
+
+const record = (overrides: Partial<ExportRecord>): ExportRecord => ({
+  word: "",
+  meaning: "",
+  sentence: "",
+  points: "",
+  document: "",
+  page: "",
+  date: "",
+  ...overrides,
+})
+
+const settings = (
+  overrides: Partial<VocabularyExportSettings>,
+): VocabularyExportSettings => ({
+  ...DEFAULT_EXPORT_SETTINGS,
+  fields: [
+    { name: "Front", source: "sentence" },
+    { name: "Back", source: "meaning" },
+  ],
+  ...overrides,
+})
+
+describe("vocabularyExport", () => {
+  describe("formatHighlight", () => {
+    it("should convert highlights to bold", () => {
+      expect(formatHighlight("a ***word*** here", "bold")).toBe(
+        "a <b>word</b> here",
+      )
+    })
+
+    it("should accept the **bold** variant", () => {
+      expect(formatHighlight("a **word** here", "plain")).toBe("a word here")
+    })
+
+    it("should use c1 for every cloze deletion", () => {
+      expect(formatHighlight("***one*** and ***two***", "cloze")).toBe(
+        "{{c1::one}} and {{c1::two}}",
+      )
+    })
+  })
+
+  describe("mapRecords", () => {
+    it("should map fields in order and escape HTML", () => {
+      const rows = mapRecords(
+        [record({ sentence: "x < ***y***", meaning: "line1\nline2" })],
+        settings({ highlightFormat: "bold" }),
+      )
+      expect(rows).toEqual([["x &lt; <b>y</b>", "line1<br>line2"]])
+    })
+
+    it("should skip records without a deletion in cloze format", () => {
+      const rows = mapRecords(
+        [
+          record({ sentence: "a ***word***", meaning: "kept" }),
+          record({ sentence: "no markup", meaning: "dropped" }),
+        ],
+        settings({ highlightFormat: "cloze" }),
+      )
+      expect(rows).toEqual([["a {{c1::word}}", "kept"]])
+    })
+
+    it("should only look at the first field for deletions", () => {
+      const rows = mapRecords(
+        [record({ sentence: "plain", meaning: "***word***" })],
+        settings({ highlightFormat: "cloze" }),
+      )
+      expect(rows).toEqual([])
+    })
+  })
+
+  describe("toDelimitedText", () => {
+    const rows = [['say "hi", bye', "tab\there"]]
+
+    it("should quote CSV values containing separators or quotes", () => {
+      expect(toDelimitedText(rows, settings({ format: "csv" }))).toBe(
+        '"say ""hi"", bye",tab\there\n',
+      )
+    })
+
+    it("should replace tabs in TSV values", () => {
+      expect(toDelimitedText(rows, settings({ format: "tsv" }))).toBe(
+        'say "hi", bye\ttab here\n',
+      )
+    })
+
+    it("should write the field names as a header when enabled", () => {
+      expect(
+        toDelimitedText([["a", "b"]], settings({ includeHeader: true })),
+      ).toBe("Front\tBack\na\tb\n")
+    })
+  })
+
+  describe("getExportSettings", () => {
+    it("should return a copy of the defaults", () => {
+      const result = getExportSettings()
+      expect(result).toEqual(DEFAULT_EXPORT_SETTINGS)
+      result.fields.push({ name: "Extra", source: "word" })
+      expect(DEFAULT_EXPORT_SETTINGS.fields).toHaveLength(3)
+    })
+  })
+})
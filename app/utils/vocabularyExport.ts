@@ -0,0 +1,206 @@
+/**
+ * Vocabulary export (TSV / CSV / Anki .apkg)
+ *
+ * Vocabulary entries and translation history are flattened into
+ * ExportRecords, then the user's field mapping picks which record
+ * values end up in which output column
+ */
+
+import { parseTranslationPoint } from "#shared/utils/languages"
+import type { TranslationHistoryEntry, VocabularyEntry } from "~/types"
+import { formatDateTime } from "~/utils/formatUtils"
+import { escapeHtml } from "~/utils/markdown"
+
+export type ExportFormat = "tsv" | "csv" | "apkg"
+
+/**
+ * How `***word***` markup is written out
+ * - bold:  `<b>word</b>` (rendered by Anki and most spreadsheet imports)
+ * - cloze: `{{c1::word}}` for Anki cloze note types
+ * - plain: markup removed
+ */
+export type HighlightFormat = "bold" | "cloze" | "plain"
+
+export type ExportSourceField =
+  | "word"
+  | "meaning"
+  | "sentence"
+  | "points"
+  | "document"
+  | "page"
+  | "date"
+
+export const EXPORT_SOURCE_FIELDS: { id: ExportSourceField; label: string }[] =
+  [
+    { id: "word", label: "単語 / 原文" },
+    { id: "meaning", label: "意味 / 訳" },
+    { id: "sentence", label: "例文" },
+    { id: "points", label: "翻訳のポイント" },
+    { id: "document", label: "文書名" },
+    { id: "page", label: "ページ" },
+    { id: "date", label: "日時" },
+  ]
+
+export interface ExportFieldMapping {
+  /** Column header / Anki field name */
+  name: string
+  source: ExportSourceField
+}
+
+export interface VocabularyExportSettings {
+  format: ExportFormat
+  highlightFormat: HighlightFormat
+  includeHeader: boolean
+  includeTranslationHistory: boolean
+  deckName: string
+  fields: ExportFieldMapping[]
+}
+
+export type ExportRecord = Record<ExportSourceField, string>
+
+export const DEFAULT_EXPORT_SETTINGS: VocabularyExportSettings = {
+  format: "tsv",
+  highlightFormat: "bold",
+  includeHeader: false,
+  includeTranslationHistory: false,
+  deckName: "Pedaru",
+  fields: [
+    { name: "Front", source: "sentence" },
+    { name: "Back", source: "meaning" },
+    { name: "Word", source: "word" },
+  ],
+}
+
+const EXPORT_SETTINGS_KEY = "pedaru_vocabulary_export_settings"
+
+/**
+ * Returns a fresh copy each time, so editing the result (e.g. the field
+ * list in the dialog) never changes the defaults
+ */
+export function getExportSettings(): VocabularyExportSettings {
+  if (typeof window === "undefined") {
+    return structuredClone(DEFAULT_EXPORT_SETTINGS)
+  }
+
+  try {
+    const stored = localStorage.getItem(EXPORT_SETTINGS_KEY)
+    if (stored) {
+      return structuredClone({
+        ...DEFAULT_EXPORT_SETTINGS,
+        ...JSON.parse(stored),
+      })
+    }
+  } catch (error) {
+    console.error("Failed to get export settings:", error)
+  }
+
+  return structuredClone(DEFAULT_EXPORT_SETTINGS)
+}
+
+export function saveExportSettings(settings: VocabularyExportSettings): void {
+  if (typeof window === "undefined") {
+    return
+  }
+
+  try {
+    localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error("Failed to save export settings:", error)
+  }
+}
+
+// ============================================
+// Records
+// ============================================
+
+/**
+ * Converts `***highlight***` markup (and the `**bold**` variant the
+ * models sometimes use) to the requested output format
+ * Cloze deletions all share `c1`, so each note makes exactly one card
+ */
+export function formatHighlight(text: string, format: HighlightFormat): string {
+  return text.replace(/\*{2,3}(.+?)\*{2,3}/g, (_, inner: string) => {
+    switch (format) {
+      case "bold":
+        return `<b>${inner}</b>`
+      case "cloze":
+        return `{{c1::${inner}}}`
+      default:
+        return inner
+    }
+  })
+}
+
+export function vocabularyToRecord(entry: VocabularyEntry): ExportRecord {
+  return {
+    word: entry.word,
+    meaning: entry.meaning,
+    sentence: entry.sourceSentence,
+    points: "",
+    document: entry.documentName ?? "",
+    page: String(entry.pageNumber),
+    date: formatDateTime(entry.createdAt),
+  }
+}
+
+export function translationToRecord(
+  entry: TranslationHistoryEntry,
+): ExportRecord {
+  const original = entry.points
+    .map(parseTranslationPoint)
+    .find((p) => p.kind === "original")
+  return {
+    word: entry.text,
+    meaning: entry.translation,
+    sentence: original?.body ?? entry.text,
+    points: entry.points.join("\n"),
+    document: entry.documentName ?? "",
+    page: entry.pageNumber ? String(entry.pageNumber) : "",
+    date: formatDateTime(entry.createdAt),
+  }
+}
+
+/**
+ * Applies the field mapping; returns one array of column values per record
+ * Values are HTML-escaped since Anki renders fields as HTML. In cloze
+ * format, records whose first field has no deletion are left out
+ */
+export function mapRecords(
+  records: ExportRecord[],
+  settings: VocabularyExportSettings,
+): string[][] {
+  const rows = records.map((record) =>
+    settings.fields.map((field) =>
+      formatHighlight(
+        escapeHtml(record[field.source]),
+        settings.highlightFormat,
+      ).replace(/\r?\n/g, "<br>"),
+    ),
+  )
+  if (settings.highlightFormat !== "cloze") return rows
+  // 穴埋めのないクローズノートはカードにならず、Anki の取り込みで空カード扱いになる
+  return rows.filter((fields) => fields[0]?.includes("{{c1::"))
+}
+
+// ============================================
+// Delimited text
+// ============================================
+
+const escapeCsvValue = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+const escapeTsvValue = (value: string) => value.replace(/\t/g, " ")
+
+export function toDelimitedText(
+  rows: string[][],
+  settings: VocabularyExportSettings,
+): string {
+  const isCsv = settings.format === "csv"
+  const escapeValue = isCsv ? escapeCsvValue : escapeTsvValue
+  const separator = isCsv ? "," : "\t"
+
+  const lines = settings.includeHeader
+    ? [settings.fields.map((f) => f.name), ...rows]
+    : rows
+  return `${lines.map((line) => line.map(escapeValue).join(separator)).join("\n")}\n`
+}
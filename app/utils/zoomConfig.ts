@@ -0,0 +1,88 @@
+/**
+ * Zoom configuration and utility functions
+ * Provides consistent zoom behavior across keyboard shortcuts and menu actions
+ */
+
+import type { ZoomMode } from "~/types"
+
+export const ZOOM_CONFIG = {
+  /** Minimum zoom level */
+  min: 0.25,
+  /** Maximum zoom level */
+  max: 4.0,
+  /** Zoom step increment */
+  step: 0.25,
+  /** Default zoom level */
+  default: 1.0,
+} as const
+
+/**
+ * Clamp zoom value to valid range
+ */
+export function clampZoom(zoom: number): number {
+  return Math.max(ZOOM_CONFIG.min, Math.min(ZOOM_CONFIG.max, zoom))
+}
+
+/**
+ * Increase zoom by one step
+ */
+export function zoomIn(current: number): number {
+  return clampZoom(current + ZOOM_CONFIG.step)
+}
+
+/**
+ * Decrease zoom by one step
+ */
+export function zoomOut(current: number): number {
+  return clampZoom(current - ZOOM_CONFIG.step)
+}
+
+/**
+ * Reset zoom to default value
+ */
+export function resetZoom(): number {
+  return ZOOM_CONFIG.default
+}
+
+/**
+ * Labels of the zoom modes, in menu order
+ */
+export const ZOOM_MODE_LABELS: Record<ZoomMode, string> = {
+  custom: "指定倍率",
+  "fit-width": "幅に合わせる",
+  "fit-page": "ページ全体",
+  "actual-size": "実際のサイズ",
+}
+
+/** Zoom at which a page appears at its printed size (72 pt = 96 CSS px) */
+export const ACTUAL_SIZE_ZOOM = 96 / 72
+
+export interface FitZoomInput {
+  /** Space available for the pages (px) */
+  availableWidth: number
+  availableHeight: number
+  /** Size of the pages shown side by side at zoom 1 */
+  contentWidth: number
+  contentHeight: number
+}
+
+/**
+ * Zoom level for a fitting mode, or null for "custom"
+ */
+export function computeFitZoom(
+  mode: ZoomMode,
+  input: FitZoomInput,
+): number | null {
+  const widthZoom = input.availableWidth / input.contentWidth
+  const heightZoom = input.availableHeight / input.contentHeight
+  switch (mode) {
+    case "custom":
+      return null
+    case "actual-size":
+      return clampZoom(ACTUAL_SIZE_ZOOM)
+    case "fit-width":
+      return clampZoom(widthZoom)
+    case "fit-page":
+      return clampZoom(Math.min(widthZoom, heightZoom))
+  }
+}
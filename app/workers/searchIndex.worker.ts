@@ -0,0 +1,163 @@
+/**
+ * Search worker: owns the inverted index of the open document and
+ * persists it per document fingerprint in IndexedDB
+ *
+ * Messages are handled strictly in order, so pages added while the stored
+ * index is still loading are not lost
+ */
+
+import type { SearchResult } from "~/types"
+import {
+  addPageToIndex,
+  createSearchIndex,
+  deserializeSearchIndex,
+  type LibrarySearchGroup,
+  type SearchIndex,
+  type SearchWorkerRequest,
+  type SearchWorkerResponse,
+  searchInIndex,
+  searchStoredIndex,
+  serializeSearchIndex,
+} from "~/utils/searchIndex"
+import {
+  forEachStoredIndex,
+  loadStoredIndex,
+  saveStoredIndex,
+} from "~/utils/searchIndexStore"
+
+interface OpenDocument {
+  fingerprint: string
+  pageCount: number
+  index: SearchIndex
+  /** True when pages were added since the last save */
+  dirty: boolean
+}
+
+let current: OpenDocument | null = null
+let queue: Promise<void> = Promise.resolve()
+
+const post = (message: SearchWorkerResponse) => self.postMessage(message)
+
+async function saveCurrentIndex() {
+  if (!current?.dirty) return
+  const { fingerprint, pageCount, index } = current
+  await saveStoredIndex(serializeSearchIndex(index, fingerprint, pageCount))
+  current.dirty = false
+}
+
+async function handleMessage(message: SearchWorkerRequest) {
+  switch (message.type) {
+    case "open": {
+      await saveCurrentIndex()
+      const stored = await loadStoredIndex(message.fingerprint).catch(
+        (error) => {
+          console.error("Failed to load search index:", error)
+          return null
+        },
+      )
+      current = {
+        fingerprint: message.fingerprint,
+        pageCount: message.pageCount,
+        index: stored ? deserializeSearchIndex(stored) : createSearchIndex(),
+        dirty: false,
+      }
+      const missingPages: number[] = []
+      for (let page = 1; page <= message.pageCount; page++) {
+        if (!current.index.texts.has(page)) missingPages.push(page)
+      }
+      post({ type: "opened", fingerprint: message.fingerprint, missingPages })
+      return
+    }
+    case "addPages": {
+      if (current?.fingerprint !== message.fingerprint) return
+      for (const { page, text } of message.pages) {
+        addPageToIndex(current.index, page, text)
+      }
+      current.dirty = true
+      const indexedPages = current.index.texts.size
+      // 全ページそろった時点で保存する (途中経過は close 時に保存)
+      if (indexedPages >= current.pageCount) await saveCurrentIndex()
+      post({ type: "indexed", fingerprint: message.fingerprint, indexedPages })
+      return
+    }
+    case "search": {
+      if (current?.fingerprint !== message.fingerprint) return
+      post({
+        type: "results",
+        id: message.id,
+        fingerprint: message.fingerprint,
+        results: searchInIndex(current.index, message.query, message.options),
+        indexedPages: current.index.texts.size,
+      })
+      return
+    }
+    case "count": {
+      if (current?.fingerprint !== message.fingerprint) return
+      let count = 0
+      try {
+        count = searchInIndex(
+          current.index,
+          message.query,
+          message.options,
+        ).length
+      } catch {
+        // 保存済みの不正な正規表現は0件として扱う
+      }
+      post({
+        type: "counted",
+        id: message.id,
+        fingerprint: message.fingerprint,
+        count,
+      })
+      return
+    }
+    case "searchLibrary": {
+      const groups: LibrarySearchGroup[] = []
+      const addGroup = (fingerprint: string, results: SearchResult[]) => {
+        if (results.length === 0) return
+        groups.push({
+          fingerprint,
+          results: results.slice(0, message.limitPerDocument),
+          total: results.length,
+        })
+      }
+      // 開いている文書は保存前のページも含めてメモリ上の索引で検索する
+      if (current) {
+        addGroup(
+          current.fingerprint,
+          searchInIndex(current.index, message.query, message.options),
+        )
+      }
+      await forEachStoredIndex((stored) => {
+        if (stored.fingerprint === current?.fingerprint) return
+        addGroup(
+          stored.fingerprint,
+          searchStoredIndex(stored, message.query, message.options),
+        )
+      })
+      groups.sort((a, b) => b.total - a.total)
+      post({ type: "libraryResults", id: message.id, groups })
+      return
+    }
+    case "close": {
+      await saveCurrentIndex()
+      current = null
+      post({ type: "closed" })
+      return
+    }
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data
+  queue = queue
+    .then(() => handleMessage(request))
+    .catch((error) => {
+      console.error("Search worker error:", error)
+      post({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+        fingerprint: "fingerprint" in request ? request.fingerprint : undefined,
+      })
+    })
+})
@@ -1,3 +1,8 @@
+import { fileURLToPath } from "node:url"
+
+const fromNodeModules = (path: string) =>
+  fileURLToPath(new URL(`./node_modules/${path}`, import.meta.url))
+
 // https://nuxt.com/docs/api/configuration/nuxt-config
 export default defineNuxtConfig({
   compatibilityDate: "2025-07-15",
@@ -5,4 +10,38 @@ export default defineNuxtConfig({
   devServer: {
     port: 5500,
   },
+  nitro: {
+    publicAssets: [
+      // pdf.js の CMap (CJK などのフォント) と標準フォントを自前で配信する
+      { baseURL: "pdfjs/cmaps", dir: fromNodeModules("pdfjs-dist/cmaps") },
+      {
+        baseURL: "pdfjs/standard_fonts",
+        dir: fromNodeModules("pdfjs-dist/standard_fonts"),
+      },
+      // OCR (tesseract.js) のワーカー・エンジン・言語データも同様に配信する
+      { baseURL: "tesseract", dir: fromNodeModules("tesseract.js/dist") },
+      { baseURL: "tesseract/core", dir: fromNodeModules("tesseract.js-core") },
+      {
+        baseURL: "tesseract/lang",
+        dir: fromNodeModules("@tesseract.js-data/eng/4.0.0_best_int"),
+      },
+      {
+        baseURL: "tesseract/lang",
+        dir: fromNodeModules("@tesseract.js-data/jpn/4.0.0_best_int"),
+      },
+    ],
+  },
+  runtimeConfig: {
+    // NUXT_GEMINI_API_KEY / NUXT_GEMINI_API_BASE で上書きする
+    gemini: {
+      apiKey: "",
+      apiBase: "https://generativelanguage.googleapis.com/v1beta",
+    },
+    // llama.cpp / Ollama など OpenAI 互換のエンドポイント
+    openaiCompatible: {
+      apiKey: "",
+      apiBase: "http://localhost:11434/v1",
+      model: "",
+    },
+  },
 })
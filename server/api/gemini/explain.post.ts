@@ -0,0 +1,45 @@
+import type {
+  ExplanationResponse,
+  TranslationErrorBody,
+  TranslationRequestBody,
+} from "#shared/types/translation"
+
+export default defineEventHandler(
+  async (event): Promise<ExplanationResponse | TranslationErrorBody> => {
+    try {
+      const {
+        text,
+        contextBefore,
+        contextAfter,
+        model,
+        sourceLanguage,
+        targetLanguage,
+      } = await readBody<TranslationRequestBody>(event)
+
+      const config = getGeminiConfig(event)
+
+      if (!text) {
+        setResponseStatus(event, 400)
+        return { error: "Text required" }
+      }
+
+      const resultText = await generateGeminiContent(config, {
+        model,
+        prompt: buildPrompt(
+          EXPLANATION_PROMPT,
+          text,
+          contextBefore,
+          contextAfter,
+        ),
+        systemInstruction: buildExplanationSystemInstruction(
+          resolveLanguagePair(sourceLanguage, targetLanguage),
+        ),
+      })
+
+      return parseExplanationResponse(resultText)
+    } catch (error) {
+      console.error("Explanation error:", error)
+      return sendUpstreamError(event, error)
+    }
+  },
+)
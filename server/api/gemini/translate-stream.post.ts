@@ -0,0 +1,43 @@
+import type { TranslationRequestBody } from "#shared/types/translation"
+
+export default defineEventHandler(async (event) => {
+  try {
+    const {
+      text,
+      contextBefore,
+      contextAfter,
+      model,
+      sourceLanguage,
+      targetLanguage,
+    } = await readBody<TranslationRequestBody>(event)
+
+    const config = getGeminiConfig(event)
+
+    if (!text) {
+      setResponseStatus(event, 400)
+      return { error: "Text required" }
+    }
+
+    const options = {
+      model,
+      prompt: buildPrompt(
+        TRANSLATION_PROMPT,
+        text,
+        contextBefore,
+        contextAfter,
+      ),
+      systemInstruction: buildTranslationSystemInstruction(
+        resolveLanguagePair(sourceLanguage, targetLanguage),
+      ),
+    }
+
+    return sendTranslationStream(
+      event,
+      (signal) => streamGeminiContent(config, options, signal),
+      parseTranslationResponse,
+    )
+  } catch (error) {
+    console.error("Translation error:", error)
+    return sendUpstreamError(event, error)
+  }
+})
@@ -0,0 +1,45 @@
+import type {
+  TranslationErrorBody,
+  TranslationRequestBody,
+  TranslationResponse,
+} from "#shared/types/translation"
+
+export default defineEventHandler(
+  async (event): Promise<TranslationResponse | TranslationErrorBody> => {
+    try {
+      const {
+        text,
+        contextBefore,
+        contextAfter,
+        model,
+        sourceLanguage,
+        targetLanguage,
+      } = await readBody<TranslationRequestBody>(event)
+
+      const config = getGeminiConfig(event)
+
+      if (!text) {
+        setResponseStatus(event, 400)
+        return { error: "Text required" }
+      }
+
+      const resultText = await generateGeminiContent(config, {
+        model,
+        prompt: buildPrompt(
+          TRANSLATION_PROMPT,
+          text,
+          contextBefore,
+          contextAfter,
+        ),
+        systemInstruction: buildTranslationSystemInstruction(
+          resolveLanguagePair(sourceLanguage, targetLanguage),
+        ),
+      })
+
+      return parseTranslationResponse(resultText)
+    } catch (error) {
+      console.error("Translation error:", error)
+      return sendUpstreamError(event, error)
+    }
+  },
+)
@@ -0,0 +1,134 @@
+import type { H3Event } from "h3"
+import { readServerSentEvents } from "#shared/utils/sse"
+
+export const DEFAULT_GEMINI_API_BASE =
+  "https://generativelanguage.googleapis.com/v1beta"
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash"
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content: {
+      parts: Array<{
+        text: string
+      }>
+    }
+  }>
+  error?: {
+    message: string
+  }
+}
+
+export interface GeminiConfig {
+  apiKey: string
+  apiBase: string
+}
+
+/**
+ * Reads the Gemini API key and base URL from runtimeConfig
+ * (NUXT_GEMINI_API_KEY / NUXT_GEMINI_API_BASE)
+ */
+export function getGeminiConfig(event: H3Event): GeminiConfig {
+  const { gemini } = useRuntimeConfig(event)
+  if (!gemini.apiKey) {
+    throw new UpstreamApiError(
+      "NUXT_GEMINI_API_KEY is not configured. Please set it in .env",
+      500,
+    )
+  }
+  return {
+    apiKey: gemini.apiKey,
+    apiBase: (gemini.apiBase || DEFAULT_GEMINI_API_BASE).replace(/\/+$/, ""),
+  }
+}
+
+export interface GenerateContentOptions {
+  model?: string
+  prompt: string
+  systemInstruction: string
+}
+
+async function requestGemini(
+  config: GeminiConfig,
+  method: "generateContent" | "streamGenerateContent",
+  { model, prompt, systemInstruction }: GenerateContentOptions,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const query = method === "streamGenerateContent" ? "alt=sse&" : ""
+  const url = `${config.apiBase}/models/${model || DEFAULT_GEMINI_MODEL}:${method}?${query}key=${config.apiKey}`
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      systemInstruction: { parts: [{ text: systemInstruction }] },
+      generationConfig: { responseMimeType: "application/json" },
+    }),
+    signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new UpstreamApiError(
+      toUpstreamErrorMessage(response.status, errorText, "Gemini"),
+      response.status,
+    )
+  }
+
+  return response
+}
+
+/**
+ * Calls `generateContent` and returns the text of the first candidate
+ */
+export async function generateGeminiContent(
+  config: GeminiConfig,
+  options: GenerateContentOptions,
+): Promise<string> {
+  const response = await requestGemini(config, "generateContent", options)
+  const data: GeminiResponse = await response.json()
+
+  if (data.error) {
+    throw new UpstreamApiError(data.error.message, 500)
+  }
+
+  const resultText = data.candidates?.[0]?.content?.parts?.[0]?.text
+  if (!resultText) {
+    throw new UpstreamApiError("No response from API", 500)
+  }
+
+  return resultText
+}
+
+/**
+ * Calls `streamGenerateContent` (SSE) and yields text deltas of the
+ * first candidate as they arrive
+ */
+export async function* streamGeminiContent(
+  config: GeminiConfig,
+  options: GenerateContentOptions,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const response = await requestGemini(
+    config,
+    "streamGenerateContent",
+    options,
+    signal,
+  )
+  if (!response.body) {
+    throw new UpstreamApiError("No response from API", 500)
+  }
+
+  for await (const { data } of readServerSentEvents(response.body)) {
+    const chunk: GeminiResponse = JSON.parse(data)
+    if (chunk.error) {
+      throw new UpstreamApiError(chunk.error.message, 500)
+    }
+    const text = chunk.candidates?.[0]?.content?.parts
+      ?.map((part) => part.text)
+      .join("")
+    if (text) {
+      yield text
+    }
+  }
+}
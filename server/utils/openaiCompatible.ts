@@ -0,0 +1,101 @@
+import type { H3Event } from "h3"
+
+export const DEFAULT_OPENAI_COMPATIBLE_API_BASE = "http://localhost:11434/v1"
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null
+    }
+  }>
+  error?: {
+    message: string
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  apiKey: string
+  apiBase: string
+  model: string
+}
+
+/**
+ * Reads the OpenAI-compatible endpoint (llama.cpp, Ollama, ...) from
+ * runtimeConfig (NUXT_OPENAI_COMPATIBLE_API_BASE / _API_KEY / _MODEL)
+ * The API key is optional because local servers usually don't need one
+ */
+export function getOpenAICompatibleConfig(
+  event: H3Event,
+): OpenAICompatibleConfig {
+  const { openaiCompatible } = useRuntimeConfig(event)
+  return {
+    apiKey: openaiCompatible.apiKey,
+    apiBase: (
+      openaiCompatible.apiBase || DEFAULT_OPENAI_COMPATIBLE_API_BASE
+    ).replace(/\/+$/, ""),
+    model: openaiCompatible.model,
+  }
+}
+
+export interface ChatCompletionOptions {
+  model?: string
+  prompt: string
+  systemInstruction: string
+}
+
+/**
+ * Calls `/chat/completions` in JSON mode and returns the first message
+ */
+export async function generateOpenAICompatibleContent(
+  config: OpenAICompatibleConfig,
+  { model, prompt, systemInstruction }: ChatCompletionOptions,
+): Promise<string> {
+  const resolvedModel = model || config.model
+  if (!resolvedModel) {
+    throw new UpstreamApiError(
+      "No model configured. Please choose a model in Settings.",
+      400,
+    )
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`
+  }
+
+  const response = await fetch(`${config.apiBase}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: resolvedModel,
+      messages: [
+        { role: "system", content: systemInstruction },
+        { role: "user", content: prompt },
+      ],
+      response_format: { type: "json_object" },
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new UpstreamApiError(
+      toUpstreamErrorMessage(response.status, errorText, "OpenAI-compatible"),
+      response.status,
+    )
+  }
+
+  const data: ChatCompletionResponse = await response.json()
+
+  if (data.error) {
+    throw new UpstreamApiError(data.error.message, 500)
+  }
+
+  const resultText = data.choices?.[0]?.message?.content
+  if (!resultText) {
+    throw new UpstreamApiError("No response from API", 500)
+  }
+
+  return resultText
+}
@@ -0,0 +1,303 @@
+import type {
+  ExplanationResponse,
+  TranslationResponse,
+} from "#shared/types/translation"
+import {
+  AUTO_DETECT_LANGUAGE,
+  DEFAULT_SOURCE_LANGUAGE,
+  DEFAULT_TARGET_LANGUAGE,
+  getLanguageName,
+  getPointLabels,
+} from "#shared/utils/languages"
+
+export interface LanguagePair {
+  sourceLanguage: string
+  targetLanguage: string
+}
+
+export function resolveLanguagePair(
+  sourceLanguage?: string,
+  targetLanguage?: string,
+): LanguagePair {
+  return {
+    sourceLanguage: sourceLanguage || DEFAULT_SOURCE_LANGUAGE,
+    targetLanguage: targetLanguage || DEFAULT_TARGET_LANGUAGE,
+  }
+}
+
+// 英日ペアのみ具体例を持つ (元の gemini.rs のプロンプトと同じ出力例)
+const WORD_EXAMPLES: Record<string, string> = {
+  "en:ja": `
+  - Example output:
+    {
+      "translation": "活用する、利用する",
+      "points": [
+        "単語の意味: 何かの力や資源を有効に使うこと",
+        "原文: The goal is to ***harness*** the power of AI.",
+        "訳: 目標はAIの力を***活用する***ことです。",
+        "類語・言い換え: utilize（活用する）, leverage（活かす）, exploit（利用する）"
+      ]
+    }`,
+}
+
+// System instruction for translation (from gemini.rs, parameterized by language pair)
+export function buildTranslationSystemInstruction({
+  sourceLanguage,
+  targetLanguage,
+}: LanguagePair): string {
+  const isAuto = sourceLanguage === AUTO_DETECT_LANGUAGE
+  const source = isAuto ? "source-language" : getLanguageName(sourceLanguage)
+  const target = getLanguageName(targetLanguage)
+  const sourceDescription = isAuto
+    ? "in the language of the source text"
+    : `in ${source}`
+  const labels = getPointLabels(targetLanguage)
+  const example = WORD_EXAMPLES[`${sourceLanguage}:${targetLanguage}`] ?? ""
+  const detection = isAuto
+    ? `
+- Detect the language of the SELECTED TEXT automatically. If it is already ${target}, explain it in ${target} instead of translating.`
+    : ""
+
+  return `You are a professional ${isAuto ? "" : `${source}-to-`}${target} translator and language teacher.
+
+## Your Task
+Translate ONLY the "SELECTED TEXT" provided by the user${isAuto ? "" : ` from ${source}`} into ${target}. The context is for understanding only.
+
+## Output Format (STRICT - follow exactly):
+- Output MUST be valid JSON only. No markdown code blocks, no extra text.
+- The JSON structure MUST be:
+{
+  "translation": "Translation result in ${target} (string)",
+  "points": ["Point 1 (string)", "Point 2 (string)", "Point 3 (string)"]
+}
+
+## Critical Rules:
+- The "points" field MUST be a flat array of strings. DO NOT use nested objects.
+- Each element in points must be a simple string, not an object.
+- All output text MUST be in ${target}.
+- IMPORTANT: Translate ONLY the SELECTED TEXT, not the context.${detection}
+
+## Translation Rules:
+- For single words, idioms, or short phrases (no spaces, or 2-3 words):
+  - translation: Only the meaning of the word/idiom. NOT a translation of the entire sentence.
+  - points: A flat array of strings containing:
+    1. "${labels.meaning}: [explanation of the word in ${target}]"
+    2. "${labels.original}: [Extract the COMPLETE sentence ${sourceDescription} containing the word from the context, with ***highlighted*** word]"
+    3. "${labels.translation}: [${target} translation of that complete sentence, with ***highlighted*** translation of the word]"
+    4. "${labels.synonyms}: [synonyms ${sourceDescription} with ${target} meanings]"
+  - Use the labels exactly as written above, followed by a colon.${example}
+  - CRITICAL: How to find the ${labels.original} (original sentence):
+    - The selected word appears at the EXACT BOUNDARY between "Context before" and "Context after".
+    - The ${labels.original} containing the selected word is: (end of "Context before") + (selected word) + (beginning of "Context after")
+    - If the same word appears multiple times in the context, you MUST use ONLY the occurrence at the boundary position.
+    - DO NOT pick a sentence from earlier in Context before that happens to contain the same word.
+
+- For sentences or longer text:
+  - translation: Full ${target} translation of the text
+  - points: A flat array of strings with grammatical explanations:
+    1. Each point is a single string explaining one grammar structure
+    2. Focus on challenging structures: relative clauses, participle constructions, etc.
+    3. Include synonyms or alternative expressions where helpful`
+}
+
+// User prompt template for translation (from gemini.rs)
+export const TRANSLATION_PROMPT = `SELECTED TEXT (translate this):
+{text}
+
+Context before:
+{context_before}
+
+Context after:
+{context_after}`
+
+// 解説の要約で使う言い回し (言語ごと)
+const SUMMARY_PHRASES: Record<string, string> = {
+  ja: 'Use phrases like "要するに〜ということ" or "つまり〜"',
+  en: 'Use phrases like "In short, ..." or "Essentially, ..."',
+  de: 'Use phrases like "Kurz gesagt, ..." or "Im Grunde ..."',
+  fr: 'Use phrases like "En bref, ..." or "Autrement dit, ..."',
+}
+
+// System instruction for explanation (from gemini.rs, parameterized by output language)
+export function buildExplanationSystemInstruction({
+  targetLanguage,
+}: LanguagePair): string {
+  const target = getLanguageName(targetLanguage)
+  const summaryPhrase =
+    SUMMARY_PHRASES[targetLanguage] ??
+    `Use natural ${target} phrases such as "in short" or "in other words"`
+  const rephrase =
+    targetLanguage === "ja"
+      ? '"〇〇（つまり△△のこと）"'
+      : '"X (in other words, Y)"'
+
+  return `You are an expert at explaining complex concepts in simple, easy-to-understand terms.
+
+## Output Format (STRICT - follow exactly):
+- Output MUST be valid JSON only. No markdown code blocks, no extra text.
+- The JSON structure MUST be:
+{
+  "summary": "One-sentence summary (string)",
+  "points": ["Point 1 (string)", "Point 2 (string)", "Point 3 (string)"]
+}
+
+## Critical Rules:
+- The "points" field MUST be a flat array of strings. DO NOT use nested objects.
+- All output text MUST be in ${target}.
+
+## Explanation Guidelines:
+
+### Summary (summary field):
+- Summarize the essence in ONE sentence
+- ${summaryPhrase}
+- Make it understandable even for someone unfamiliar with the topic
+
+### Explanation points (points field):
+- Rephrase technical terms in plain language: ${rephrase}
+- Use familiar analogies or metaphors to explain abstract concepts
+- Add context about "why this matters" or "what benefit does this provide"
+- For technical content, explain practical use cases and benefits concretely
+- For academic content, explain the importance in the field and application examples
+- Each point should be independently understandable
+- Keep each point to 2-3 sentences`
+}
+
+// User prompt template for explanation (from gemini.rs)
+export const EXPLANATION_PROMPT = `Explain the following text.
+
+The user has selected text from a PDF document. The context shows the surrounding text:
+- "Context before" = text that appears BEFORE the selected text in the document
+- "Text to explain" = the actual text the user selected
+- "Context after" = text that appears AFTER the selected text in the document
+
+## Context before (for understanding only):
+{context_before}
+
+## Text to explain:
+{text}
+
+## Context after (for understanding only):
+{context_after}
+
+Use the context to understand the meaning, but explain only the selected text.`
+
+export function buildPrompt(
+  template: string,
+  text: string,
+  contextBefore?: string,
+  contextAfter?: string,
+): string {
+  const values: Record<string, string> = {
+    text,
+    context_before: contextBefore || "",
+    context_after: contextAfter || "",
+  }
+  // 一度に置き換え、選択テキスト中の "$&" やプレースホルダーを展開しない
+  return template.replace(
+    /\{(text|context_before|context_after)\}/g,
+    (_, name: string) => values[name] ?? "",
+  )
+}
+
+/**
+ * Strips a surrounding markdown code block, if any
+ */
+function stripCodeFence(text: string): string {
+  return text
+    .trim()
+    .replace(/^```json\s*/, "")
+    .replace(/^```\s*/, "")
+    .replace(/\s*```$/, "")
+    .trim()
+}
+
+function toStringPoints(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((p: unknown): p is string => typeof p === "string")
+    : []
+}
+
+export function parseTranslationResponse(text: string): TranslationResponse {
+  // Try to parse directly first
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed.translation !== undefined && Array.isArray(parsed.points)) {
+      return parsed
+    }
+  } catch {
+    // Continue to next attempt
+  }
+
+  // Try to extract JSON from markdown code block
+  const cleaned = stripCodeFence(text)
+
+  try {
+    const parsed = JSON.parse(cleaned)
+    if (parsed.translation !== undefined && Array.isArray(parsed.points)) {
+      return parsed
+    }
+  } catch {
+    // Continue to next attempt
+  }
+
+  // Try flexible parsing
+  try {
+    const value = JSON.parse(cleaned)
+
+    // Handle array response
+    const obj = Array.isArray(value) ? value[0] : value
+
+    if (obj) {
+      const translation =
+        typeof obj.translation === "string" ? obj.translation : ""
+      return { translation, points: toStringPoints(obj.points) }
+    }
+  } catch {
+    // Continue to fallback
+  }
+
+  // Fallback: return raw text as translation
+  return { translation: text, points: [] }
+}
+
+export function parseExplanationResponse(text: string): ExplanationResponse {
+  // Try to parse directly first
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed.summary !== undefined && Array.isArray(parsed.points)) {
+      return parsed
+    }
+  } catch {
+    // Continue to next attempt
+  }
+
+  // Try to extract JSON from markdown code block
+  const cleaned = stripCodeFence(text)
+
+  try {
+    const parsed = JSON.parse(cleaned)
+    if (parsed.summary !== undefined && Array.isArray(parsed.points)) {
+      return parsed
+    }
+  } catch {
+    // Continue to next attempt
+  }
+
+  // Try flexible parsing
+  try {
+    const value = JSON.parse(cleaned)
+
+    // Handle array response
+    const obj = Array.isArray(value) ? value[0] : value
+
+    if (obj) {
+      const summary = typeof obj.summary === "string" ? obj.summary : ""
+      return { summary, points: toStringPoints(obj.points) }
+    }
+  } catch {
+    // Continue to fallback
+  }
+
+  // Fallback: return raw text as summary
+  return { summary: text, points: [] }
+}
@@ -0,0 +1,50 @@
+import type { H3Event } from "h3"
+import type {
+  TranslationErrorBody,
+  TranslationStreamChunk,
+  TranslationStreamEvent,
+} from "#shared/types/translation"
+
+/**
+ * Relays model output deltas to the client as server-sent events and
+ * finishes with the fully parsed response
+ * The upstream request is aborted as soon as the client disconnects
+ */
+export function sendTranslationStream<T>(
+  event: H3Event,
+  generate: (signal: AbortSignal) => AsyncGenerator<string>,
+  parse: (text: string) => T,
+) {
+  const eventStream = createEventStream(event)
+  const controller = new AbortController()
+
+  const push = (name: TranslationStreamEvent, data: unknown) =>
+    eventStream.push({ event: name, data: JSON.stringify(data) })
+
+  eventStream.onClosed(() => {
+    controller.abort()
+  })
+
+  const relay = async () => {
+    let text = ""
+    try {
+      for await (const delta of generate(controller.signal)) {
+        text += delta
+        await push("chunk", { text: delta } satisfies TranslationStreamChunk)
+      }
+      await push("done", parse(text))
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Translation stream error:", error)
+        await push("error", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        } satisfies TranslationErrorBody)
+      }
+    } finally {
+      await eventStream.close()
+    }
+  }
+  relay()
+
+  return eventStream.send()
+}
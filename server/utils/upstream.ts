@@ -0,0 +1,43 @@
+import type { H3Event } from "h3"
+
+/**
+ * Error raised for any failed call to a translation backend
+ * `status` is the HTTP status the route should respond with
+ */
+export class UpstreamApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = "UpstreamApiError"
+  }
+}
+
+/**
+ * Maps an upstream HTTP error to the message shown in the popup
+ */
+export function toUpstreamErrorMessage(
+  status: number,
+  errorText: string,
+  serviceName: string,
+): string {
+  if (status === 429) {
+    return "Rate limit exceeded. Please wait a moment and try again."
+  }
+  if (status === 401 || status === 403) {
+    return `Invalid API key. Please check your ${serviceName} API key in Settings.`
+  }
+  return `API error (${status}): ${errorText}`
+}
+
+/**
+ * Converts a thrown error into the `{ error }` body used by the routes
+ */
+export function sendUpstreamError(event: H3Event, error: unknown) {
+  const status = error instanceof UpstreamApiError ? error.status : 500
+  setResponseStatus(event, status)
+  return {
+    error: error instanceof Error ? error.message : "Unknown error",
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Translation types shared between the app and the server routes
+ */
+
+/**
+ * Structured translation response from Gemini
+ */
+export interface TranslationResponse {
+  translation: string
+  points: string[]
+}
+
+/**
+ * Structured explanation response from Gemini
+ */
+export interface ExplanationResponse {
+  summary: string
+  points: string[]
+}
+
+/**
+ * Request body accepted by the translate/explain routes
+ */
+export interface TranslationRequestBody {
+  text?: string
+  contextBefore?: string
+  contextAfter?: string
+  model?: string
+  /** Language code of the selected text, or "auto" to detect it */
+  sourceLanguage?: string
+  /** Language code all output is written in */
+  targetLanguage?: string
+}
+
+/**
+ * Error body returned by the translate/explain routes
+ */
+export interface TranslationErrorBody {
+  error: string
+}
+
+/**
+ * Events sent by the `*-stream` routes
+ * - `chunk`: `{ text }` raw model output delta
+ * - `done`: the final parsed response
+ * - `error`: TranslationErrorBody
+ */
+export type TranslationStreamEvent = "chunk" | "done" | "error"
+
+export interface TranslationStreamChunk {
+  text: string
+}
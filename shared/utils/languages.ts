@@ -0,0 +1,132 @@
+/**
+ * Languages supported for translation and the localized labels used
+ * in word-translation points ("単語の意味: ...", "Meaning: ...", ...)
+ */
+
+export const AUTO_DETECT_LANGUAGE = "auto"
+export const DEFAULT_SOURCE_LANGUAGE = "en"
+export const DEFAULT_TARGET_LANGUAGE = "ja"
+
+export interface LanguageOption {
+  code: string
+  /** English name, used inside prompts */
+  name: string
+  /** Name in the language itself, used in the UI */
+  nativeName: string
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: "en", name: "English", nativeName: "English" },
+  { code: "ja", name: "Japanese", nativeName: "日本語" },
+  { code: "de", name: "German", nativeName: "Deutsch" },
+  { code: "fr", name: "French", nativeName: "Français" },
+  { code: "es", name: "Spanish", nativeName: "Español" },
+  { code: "zh", name: "Chinese (Simplified)", nativeName: "简体中文" },
+  { code: "ko", name: "Korean", nativeName: "한국어" },
+]
+
+export type TranslationPointKind =
+  | "meaning"
+  | "original"
+  | "translation"
+  | "synonyms"
+
+export type TranslationPointLabels = Record<TranslationPointKind, string>
+
+const ENGLISH_POINT_LABELS: TranslationPointLabels = {
+  meaning: "Meaning",
+  original: "Original",
+  translation: "Translation",
+  synonyms: "Synonyms",
+}
+
+const POINT_LABELS: Record<string, TranslationPointLabels> = {
+  en: ENGLISH_POINT_LABELS,
+  ja: {
+    meaning: "単語の意味",
+    original: "原文",
+    translation: "訳",
+    synonyms: "類語・言い換え",
+  },
+  de: {
+    meaning: "Bedeutung",
+    original: "Originalsatz",
+    translation: "Übersetzung",
+    synonyms: "Synonyme",
+  },
+  fr: {
+    meaning: "Sens",
+    original: "Phrase originale",
+    translation: "Traduction",
+    synonyms: "Synonymes",
+  },
+  es: {
+    meaning: "Significado",
+    original: "Original",
+    translation: "Traducción",
+    synonyms: "Sinónimos",
+  },
+  zh: {
+    meaning: "词义",
+    original: "原文",
+    translation: "译文",
+    synonyms: "近义词",
+  },
+  ko: {
+    meaning: "단어의 의미",
+    original: "원문",
+    translation: "번역",
+    synonyms: "유의어",
+  },
+}
+
+export function getLanguage(code: string): LanguageOption | undefined {
+  return LANGUAGES.find((language) => language.code === code)
+}
+
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name ?? code
+}
+
+/**
+ * Point labels for the given output language (English when unknown)
+ */
+export function getPointLabels(code: string): TranslationPointLabels {
+  return POINT_LABELS[code] ?? ENGLISH_POINT_LABELS
+}
+
+export interface ParsedTranslationPoint {
+  kind: TranslationPointKind | null
+  label: string | null
+  body: string
+}
+
+/**
+ * Splits a point into its label and body
+ * Labels of every supported language are recognized, so results stay
+ * readable after the target language is changed; unknown "Label: body"
+ * prefixes are kept as a label without a kind
+ */
+export function parseTranslationPoint(point: string): ParsedTranslationPoint {
+  const match = point.match(/^\s*([^:：\n]{1,30})\s*[:：]\s*([\s\S]*)$/)
+  const label = match?.[1]?.trim()
+  const body = match?.[2]?.trim() ?? ""
+  if (!label) {
+    return { kind: null, label: null, body: point }
+  }
+
+  const normalized = label.toLowerCase()
+  for (const labels of Object.values(POINT_LABELS)) {
+    for (const [kind, candidate] of Object.entries(labels)) {
+      if (candidate.toLowerCase() === normalized) {
+        return { kind: kind as TranslationPointKind, label, body }
+      }
+    }
+  }
+
+  // 文中のコロン (URL や長い節) はラベルとして扱わない
+  if (/\s{2,}|https?$/.test(label) || label.split(/\s+/).length > 4) {
+    return { kind: null, label: null, body: point }
+  }
+  return { kind: null, label, body }
+}
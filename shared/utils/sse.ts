@@ -0,0 +1,50 @@
+/**
+ * Server-sent events reader usable from both the server routes
+ * (reading upstream streams) and the app (reading our own routes)
+ */
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = "message"
+    const data: string[] = []
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""))
+      }
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = blocks.pop() ?? ""
+      for (const block of blocks) {
+        const parsed = parseBlock(block)
+        if (parsed) yield parsed
+      }
+    }
+
+    const parsed = parseBlock(buffer + decoder.decode())
+    if (parsed) yield parsed
+  } finally {
+    reader.releaseLock()
+  }
+}
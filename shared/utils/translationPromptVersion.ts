@@ -0,0 +1,6 @@
+/**
+ * Version of the translation/explanation prompts
+ * Bump whenever the system instructions or prompt templates change so
+ * results cached with older prompts are no longer reused
+ */
+export const TRANSLATION_PROMPT_VERSION = 2
@@ -0,0 +1,18 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+const fromRoot = (path: string) =>
+  fileURLToPath(new URL(`./${path}`, import.meta.url))
+
+// 純粋なユーティリティの単体テスト用 (Nuxt の実行環境は使わない)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "~": fromRoot("app"),
+      "#shared": fromRoot("shared"),
+    },
+  },
+  test: {
+    include: ["{app,server,shared}/**/*.test.ts"],
+  },
+})